@@ -0,0 +1,1022 @@
+import { createServer } from 'http';
+import { randomUUID } from 'crypto';
+import { Server, type Socket } from 'socket.io';
+import { Chess } from 'chess.js';
+import { openStore, type GameStore, type StoredPlayer, type StoredRoom } from './server/store.ts';
+import { DEFAULT_RATING, rateGame } from './src/lib/glicko2.ts';
+import { openTablebase, type Tablebase } from './server/tablebase.ts';
+import { isValidPayload } from './server/validate.ts';
+import { positionError } from './src/lib/game.ts';
+import { timeControlCategory, type ClockColor, type ClockState, type TimeControl } from './src/lib/clock.ts';
+import {
+  MAX_CHAT_LENGTH, MAX_NAME_LENGTH, MIN_NAME_LENGTH,
+  type ChatMessage, type ChatStream, type ClientToServerEvents, type ErrorCode, type GameOver, type LobbyState,
+  type MoveRejectReason, type Profiles, type PublicProfile, type RatingChanges, type RoomSnapshot, type Seek,
+  type ServerToClientEvents
+} from './src/lib/protocol.ts';
+
+type Timer = ReturnType<typeof setTimeout>;
+
+interface SocketData {
+  playerId: string;
+  // The room this socket last joined or created
+  roomId?: string;
+  // When this socket's recent chat messages were sent, for rate limiting
+  chatSentAt?: number[];
+}
+
+type GameSocket = Socket<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>;
+
+interface ServerClock {
+  timeControl: TimeControl;
+  // Milliseconds left at the start of the current turn
+  remaining: Record<ClockColor, number>;
+  running: ClockColor | null;
+  turnStartedAt: number | null;
+  flagTimer: Timer | undefined;
+}
+
+interface Room {
+  id: string;
+  // Id the current game will be archived under
+  gameId: string;
+  players: { white?: string, black?: string };
+  startFen: string;
+  game: Chess;
+  // Socket ids
+  spectators: string[];
+  clock: ServerClock | null;
+  result: GameOver | null;
+  // Color of the player with a pending draw offer
+  drawOffer: ClockColor | null;
+  // Color of the player asking to take back their last move
+  takebackOffer: ClockColor | null;
+  // Color of the player offering a rematch once the game is over
+  rematchOffer: ClockColor | null;
+  // Grace period timers for seated players who dropped
+  disconnectTimers: Record<ClockColor, Timer | null>;
+  // Players and spectators talk in separate streams; players never see the spectators'
+  chat: Record<ChatStream, ChatMessage[]>;
+  rated: boolean;
+  // Left out of the lobby's game list
+  private: boolean;
+  createdAt: number;
+}
+
+const httpServer = createServer();
+const io = new Server<ClientToServerEvents, ServerToClientEvents, Record<string, never>, SocketData>(httpServer, {
+  cors: {
+    origin: "http://localhost:5173",
+    methods: ["GET", "POST"]
+  }
+});
+
+// Opened in start(), before the server accepts connections
+let store: GameStore;
+let tablebase: Tablebase;
+
+const rooms = new Map<string, Room>();
+// Players by public id, and the same players by session token. Tokens stay private.
+const players = new Map<string, StoredPlayer>();
+const sessions = new Map<string, StoredPlayer>();
+
+// Open seeks by id; a seek is a standing offer to play with the given settings
+const seeks = new Map<string, Seek>();
+
+// How long a dropped player's seat is held before they forfeit it
+const RECONNECT_GRACE_MS = 60 * 1000;
+
+const LEADERBOARD_SIZE = 50;
+
+// Chat: messages kept per room for late joiners, and at most CHAT_RATE_LIMIT
+// messages per socket in any CHAT_RATE_WINDOW_MS
+const CHAT_HISTORY_LIMIT = 100;
+const CHAT_RATE_LIMIT = 5;
+const CHAT_RATE_WINDOW_MS = 10 * 1000;
+
+// Limits for custom time controls, in seconds
+const MAX_INITIAL_TIME = 3 * 60 * 60;
+const MAX_INCREMENT = 180;
+
+const COLORS: ClockColor[] = ["white", "black"];
+
+// Returns null for an untimed game and undefined for an invalid time control
+const parseTimeControl = (value: TimeControl | null): TimeControl | null | undefined => {
+  if (value === null) return null;
+  const { initial, increment, delay } = value;
+  const valid = [initial, increment, delay].every(n => n >= 0)
+    && initial > 0 && initial <= MAX_INITIAL_TIME
+    && increment <= MAX_INCREMENT && delay <= MAX_INCREMENT;
+  return valid ? { initial, increment, delay } : undefined;
+};
+
+const createClock = (timeControl: TimeControl | null): ServerClock | null => timeControl && {
+  timeControl,
+  remaining: { white: timeControl.initial * 1000, black: timeControl.initial * 1000 },
+  running: null,
+  turnStartedAt: null,
+  flagTimer: undefined
+};
+
+// Clock snapshot as of now; clients count down the running side from here
+const clockState = (room: Room): ClockState | null => {
+  const { clock } = room;
+  if (!clock) return null;
+  const remaining = { ...clock.remaining };
+  if (clock.running) {
+    remaining[clock.running] = Math.max(0, remaining[clock.running] - (Date.now() - (clock.turnStartedAt ?? Date.now())));
+  }
+  return { timeControl: clock.timeControl, ...remaining, running: clock.running };
+};
+
+const stopClock = (room: Room) => {
+  const state = clockState(room);
+  if (!room.clock || !state) return;
+  clearTimeout(room.clock.flagTimer);
+  room.clock.remaining = { white: state.white, black: state.black };
+  room.clock.running = null;
+  room.clock.turnStartedAt = null;
+};
+
+// A side that runs out of time loses, unless the opponent has only a king left
+const hasMatingMaterial = (game: Chess, color: ClockColor) =>
+  game.board().flat().some(square => square && square.color === color[0] && square.type !== "k");
+
+const opponentOf = (color: ClockColor): ClockColor => color === "white" ? "black" : "white";
+
+const winFor = (color: ClockColor): GameOver["result"] => color === "white" ? "1-0" : "0-1";
+
+const seatOf = (room: Room, playerId: string): ClockColor | null =>
+  room.players.white === playerId ? "white" : room.players.black === playerId ? "black" : null;
+
+// Every socket of a player joins this channel, so messages follow them across reconnects
+const playerChannel = (playerId: string) => `player:${playerId}`;
+
+const isConnected = (playerId: string) => (io.sockets.adapter.rooms.get(playerChannel(playerId))?.size ?? 0) > 0;
+
+const reconnectingColors = (room: Room) => COLORS.filter(color => room.disconnectTimers[color]);
+
+const sendError = (socket: GameSocket, event: keyof ClientToServerEvents, code: ErrorCode, message: string) => {
+  socket.emit("error", { code, message, event });
+};
+
+// Writes never hold up play; failures are only logged
+const persist = (promise: Promise<void>) => {
+  promise.catch(error => console.error("Storage error:", error));
+};
+
+const saveRoom = (room: Room) => {
+  const clock = clockState(room);
+  persist(store.saveRoom({
+    id: room.id,
+    gameId: room.gameId,
+    players: { ...room.players },
+    startFen: room.startFen,
+    moves: room.game.history(),
+    timeControl: clock ? clock.timeControl : null,
+    clock: clock && { white: clock.white, black: clock.black, running: clock.running },
+    result: room.result,
+    drawOffer: room.drawOffer,
+    takebackOffer: room.takebackOffer,
+    rematchOffer: room.rematchOffer,
+    rated: room.rated,
+    private: room.private,
+    createdAt: room.createdAt
+  }));
+};
+
+const archiveGame = (room: Room, result: GameOver) => {
+  persist(store.saveGame({
+    id: room.gameId,
+    roomId: room.id,
+    players: { ...room.players },
+    startFen: room.startFen,
+    moves: room.game.history(),
+    timeControl: room.clock ? room.clock.timeControl : null,
+    rated: room.rated,
+    result: result.result,
+    reason: result.reason,
+    ...(result.ratingChanges ? { ratingChanges: result.ratingChanges } : {}),
+    startedAt: room.createdAt,
+    endedAt: Date.now()
+  }));
+};
+
+const deleteRoomIfEmpty = (room: Room) => {
+  if (room.players.white || room.players.black || room.spectators.length > 0) return;
+  if (room.clock) clearTimeout(room.clock.flagTimer);
+  rooms.delete(room.id);
+  persist(store.deleteRoom(room.id));
+};
+
+// What everyone may see about a player; token-less guests only have a generated name
+const publicProfile = (id: string): PublicProfile => {
+  const player = players.get(id);
+  return { id, name: player?.name || `Player ${id.slice(0, 6)}`, ratings: player?.ratings ?? {} };
+};
+
+const profilesOf = (ids: (string | undefined)[]): Profiles =>
+  Object.fromEntries(ids.filter((id): id is string => Boolean(id)).map(id => [id, publicProfile(id)]));
+
+// Everything a client needs to (re)build the game
+const roomSnapshot = (room: Room): RoomSnapshot => ({
+  roomId: room.id,
+  startFen: room.startFen,
+  fen: room.game.fen(),
+  moves: room.game.history(),
+  clock: clockState(room),
+  result: room.result,
+  drawOffer: room.drawOffer,
+  takebackOffer: room.takebackOffer,
+  rematchOffer: room.rematchOffer,
+  reconnecting: reconnectingColors(room),
+  profiles: profilesOf([room.players.white, room.players.black])
+});
+
+// Socket.io channel for a room's spectator chat
+const spectatorChannel = (roomId: string) => `${roomId}:spectators`;
+
+// Chat history for someone joining the room, oldest first
+const chatHistory = (room: Room, spectator: boolean) =>
+  (spectator ? [...room.chat.players, ...room.chat.spectators] : room.chat.players).sort((a, b) => a.at - b.at);
+
+// Open seeks plus every game in progress, for the lobby's live lists
+const lobbyState = (): LobbyState => ({
+  profiles: profilesOf([
+    ...[...seeks.values()].map(seek => seek.playerId),
+    ...[...rooms.values()].flatMap(room => [room.players.white, room.players.black])
+  ]),
+  seeks: [...seeks.values()],
+  games: [...rooms.values()]
+    .filter(room => room.players.white && room.players.black && !room.result && !room.private)
+    .map(room => ({
+      roomId: room.id,
+      players: { ...room.players },
+      timeControl: room.clock ? room.clock.timeControl : null,
+      rated: room.rated,
+      moveCount: room.game.history().length
+    }))
+});
+
+const broadcastLobby = () => io.to("lobby").emit("lobby", lobbyState());
+
+const cancelSeeks = (playerId: string) => {
+  const before = seeks.size;
+  seeks.forEach((seek, id) => {
+    if (seek.playerId === playerId) seeks.delete(id);
+  });
+  if (seeks.size !== before) broadcastLobby();
+};
+
+const sameTimeControl = (a: TimeControl | null, b: TimeControl | null) =>
+  a === b || Boolean(a && b && a.initial === b.initial && a.increment === b.increment && a.delay === b.delay);
+
+// Two seeks match when they want the same game and their color wishes do not clash
+const seeksMatch = (a: Seek, b: Seek) =>
+  a.playerId !== b.playerId && a.rated === b.rated && sameTimeControl(a.timeControl, b.timeControl)
+  && (a.color === "random" || a.color !== b.color);
+
+const SCORES: Record<GameOver["result"], Record<ClockColor, number>> = {
+  "1-0": { white: 1, black: 0 },
+  "0-1": { white: 0, black: 1 },
+  "1/2-1/2": { white: 0.5, black: 0.5 }
+};
+
+// Updates both players' ratings for a finished rated game. Games that end
+// before both sides have moved are not rated.
+const rateRoom = (room: Room, result: GameOver): RatingChanges | null => {
+  const white = room.players.white && players.get(room.players.white);
+  const black = room.players.black && players.get(room.players.black);
+  if (!room.rated || !room.clock || !white || !black || room.game.history().length < 2) return null;
+
+  const category = timeControlCategory(room.clock.timeControl);
+  const before = { white: white.ratings[category] ?? DEFAULT_RATING, black: black.ratings[category] ?? DEFAULT_RATING };
+  const scores = SCORES[result.result];
+  const after = {
+    white: rateGame(before.white, before.black, scores.white),
+    black: rateGame(before.black, before.white, scores.black)
+  };
+
+  const at = Date.now();
+  ([["white", white], ["black", black]] as const).forEach(([color, player]) => {
+    player.ratings = { ...player.ratings, [category]: after[color] };
+    player.ratingHistory = [
+      ...player.ratingHistory,
+      { category, rating: after[color].rating, rd: after[color].rd, gameId: room.gameId, at }
+    ];
+    persist(store.savePlayer(player));
+  });
+
+  return {
+    category,
+    white: { before: before.white.rating, after: after.white.rating },
+    black: { before: before.black.rating, after: after.black.rating }
+  };
+};
+
+const endGame = (room: Room, gameResult: GameOver) => {
+  stopClock(room);
+  const ratingChanges = rateRoom(room, gameResult);
+  const result = ratingChanges ? { ...gameResult, ratingChanges } : gameResult;
+  room.result = result;
+  room.drawOffer = null;
+  room.takebackOffer = null;
+  io.to(room.id).emit("gameOver", {
+    ...result,
+    clock: clockState(room),
+    profiles: profilesOf([room.players.white, room.players.black])
+  });
+  archiveGame(room, result);
+  saveRoom(room);
+  broadcastLobby();
+};
+
+// Result of a game that ended on the board, or null if it goes on
+const adjudicate = (game: Chess): GameOver | null => {
+  if (game.isCheckmate()) return { result: game.turn() === "w" ? "0-1" : "1-0", reason: "checkmate" };
+  if (game.isStalemate()) return { result: "1/2-1/2", reason: "stalemate" };
+  if (game.isInsufficientMaterial()) return { result: "1/2-1/2", reason: "insufficientMaterial" };
+  if (game.isThreefoldRepetition()) return { result: "1/2-1/2", reason: "threefoldRepetition" };
+  if (game.isDraw()) return { result: "1/2-1/2", reason: "fiftyMoveRule" };
+  return null;
+};
+
+const flagFall = (room: Room, color: ClockColor) => {
+  stopClock(room);
+  if (room.clock) room.clock.remaining[color] = 0;
+  const opponent = opponentOf(color);
+  endGame(room, {
+    result: hasMatingMaterial(room.game, opponent) ? winFor(opponent) : "1/2-1/2",
+    reason: "timeout",
+    loser: color
+  });
+};
+
+// The grace period ran out or the player left: free the seat, and forfeit a game that was under way.
+// With the opponent gone too, e.g. after a restart nobody came back from, nobody
+// wins: the game is abandoned unrated and unarchived.
+const releaseSeat = (room: Room, color: ClockColor) => {
+  const playerId = room.players[color];
+  const opponent = room.players[opponentOf(color)];
+  room.disconnectTimers[color] = null;
+  if (!room.result && room.game.history().length > 0) {
+    if (opponent && isConnected(opponent)) {
+      endGame(room, { result: winFor(opponentOf(color)), reason: "abandonment", loser: color });
+    } else {
+      stopClock(room);
+    }
+  }
+  room.players[color] = undefined;
+  // A rematch needs both of the original players
+  room.rematchOffer = null;
+  if (playerId) io.to(room.id).emit("playerLeft", playerId, color);
+  saveRoom(room);
+  deleteRoomIfEmpty(room);
+  broadcastLobby();
+};
+
+const holdSeat = (room: Room, color: ClockColor) => {
+  room.disconnectTimers[color] = setTimeout(() => releaseSeat(room, color), RECONNECT_GRACE_MS);
+};
+
+// Starts the clock of the side to move and arms its flag timer
+const startClock = (room: Room, color: ClockColor) => {
+  const { clock } = room;
+  if (!clock) return;
+  clock.running = color;
+  clock.turnStartedAt = Date.now();
+  clearTimeout(clock.flagTimer);
+  clock.flagTimer = setTimeout(() => flagFall(room, color), clock.remaining[color]);
+};
+
+// Restarts a clock restored after a server restart, once a player is back to use it
+const resumeClock = (room: Room) => {
+  if (!room.clock || room.clock.running || room.result || room.game.history().length === 0) return;
+  startClock(room, room.game.turn() === "w" ? "white" : "black");
+  saveRoom(room);
+};
+
+const createRoom = ({
+  id = Math.random().toString(36).substring(7),
+  gameId = randomUUID(),
+  startFen = new Chess().fen(),
+  timeControl,
+  rated = false,
+  // Absent from rooms saved before private rooms existed
+  private: isPrivate = false,
+  createdAt = Date.now()
+}: {
+  id?: string,
+  gameId?: string,
+  startFen?: string,
+  timeControl: TimeControl | null,
+  rated?: boolean,
+  private?: boolean,
+  createdAt?: number
+}) => {
+  const room: Room = {
+    id,
+    gameId,
+    players: {},
+    startFen,
+    game: new Chess(startFen),
+    spectators: [],
+    clock: createClock(timeControl),
+    result: null,
+    drawOffer: null,
+    takebackOffer: null,
+    rematchOffer: null,
+    disconnectTimers: { white: null, black: null },
+    chat: { players: [], spectators: [] },
+    rated,
+    private: isPrivate,
+    createdAt
+  };
+  rooms.set(id, room);
+  return room;
+};
+
+// Rooms come back after a restart with everyone disconnected. Seats get the usual
+// grace period, and the clock stays stopped until one of the players is back,
+// so nobody is charged for the downtime or flagged while the server was away.
+const restoreRoom = (stored: StoredRoom) => {
+  const room = createRoom(stored);
+  stored.moves.forEach(san => room.game.move(san));
+  room.players = { ...stored.players };
+  room.result = stored.result;
+  room.drawOffer = stored.drawOffer;
+  // Absent from rooms saved before takebacks and rematches existed
+  room.takebackOffer = stored.takebackOffer ?? null;
+  room.rematchOffer = stored.rematchOffer ?? null;
+  if (room.clock && stored.clock) {
+    room.clock.remaining = { white: stored.clock.white, black: stored.clock.black };
+  }
+  COLORS.forEach(color => {
+    if (room.players[color]) holdSeat(room, color);
+  });
+  deleteRoomIfEmpty(room);
+};
+
+// Undoes the requester's last move, and the opponent's reply if there was one.
+// Time already used stays used; the side to move now has the clock.
+const takeBack = (room: Room, color: ClockColor) => {
+  const plies = room.game.turn() === color[0] ? 2 : 1;
+  stopClock(room);
+  for (let i = 0; i < plies; i++) room.game.undo();
+  room.takebackOffer = null;
+  if (room.game.history().length > 0) startClock(room, room.game.turn() === "w" ? "white" : "black");
+  io.to(room.id).emit("takebackAccepted", { by: opponentOf(color), snapshot: roomSnapshot(room) });
+  saveRoom(room);
+  broadcastLobby();
+};
+
+// Starts a new game in the same room with the colors swapped. The finished
+// game has already been archived; chat carries over.
+const startRematch = (room: Room) => {
+  const timeControl = room.clock ? room.clock.timeControl : null;
+  room.gameId = randomUUID();
+  room.players = { white: room.players.black, black: room.players.white };
+  room.game = new Chess(room.startFen);
+  room.clock = createClock(timeControl);
+  room.result = null;
+  room.drawOffer = null;
+  room.takebackOffer = null;
+  room.rematchOffer = null;
+  // Archived as the new game's start time
+  room.createdAt = Date.now();
+  io.to(room.id).emit("rematchStarted", { ...roomSnapshot(room), players: { ...room.players } });
+  saveRoom(room);
+  broadcastLobby();
+};
+
+// Seats both seekers in a fresh room; they are told to join it over their player channels
+const pairSeeks = (seek: Seek, other: Seek) => {
+  const seekerIsWhite = seek.color === "white" || other.color === "black"
+    || (seek.color === "random" && other.color === "random" && Math.random() < 0.5);
+  const room = createRoom({ timeControl: seek.timeControl, rated: seek.rated });
+  room.players = seekerIsWhite
+    ? { white: seek.playerId, black: other.playerId }
+    : { white: other.playerId, black: seek.playerId };
+  saveRoom(room);
+  cancelSeeks(seek.playerId);
+  cancelSeeks(other.playerId);
+  [seek.playerId, other.playerId].forEach(id => io.to(playerChannel(id)).emit("paired", { roomId: room.id }));
+  broadcastLobby();
+};
+
+// Registers an event handler that only runs for payloads of the declared shape.
+// A handler that throws is logged instead of taking the server down.
+const on = <E extends keyof ClientToServerEvents>(
+  socket: GameSocket,
+  event: E,
+  handler: (...args: Parameters<ClientToServerEvents[E]>) => void
+) => {
+  const listener = (...args: unknown[]) => {
+    if (!isValidPayload(event, args)) {
+      sendError(socket, event, "INVALID_PAYLOAD", `Invalid ${event} request`);
+      return;
+    }
+    try {
+      handler(...args);
+    } catch (error) {
+      console.error(`Error handling ${event}:`, error);
+    }
+  };
+  // The listener takes whatever the client sent; the handler only gets what passed the checks
+  socket.on<keyof ClientToServerEvents>(event, listener);
+};
+
+io.on("connection", (socket) => {
+  console.log(`Player connected: ${socket.id}`);
+
+  // Without a session token a player cannot reclaim their seat after reconnecting
+  const token: unknown = socket.handshake.auth?.token;
+  let playerId = socket.id;
+  if (typeof token === "string" && token.length >= 16 && token.length <= 128) {
+    const player: StoredPlayer = sessions.get(token) ?? {
+      id: randomUUID(),
+      token,
+      name: null,
+      ratings: {},
+      ratingHistory: [],
+      createdAt: Date.now(),
+      lastSeenAt: Date.now()
+    };
+    player.lastSeenAt = Date.now();
+    sessions.set(token, player);
+    players.set(player.id, player);
+    persist(store.savePlayer(player));
+    playerId = player.id;
+  }
+  socket.data.playerId = playerId;
+  socket.join(playerChannel(playerId));
+  socket.emit("session", { playerId, profile: publicProfile(playerId) });
+
+  on(socket, "createRoom", ({ timeControl, color, startFen, private: isPrivate }) => {
+    const parsedTimeControl = parseTimeControl(timeControl);
+    if (parsedTimeControl === undefined) {
+      sendError(socket, "createRoom", "INVALID_TIME_CONTROL", "Invalid time control");
+      return;
+    }
+    const invalidPosition = startFen && positionError(startFen);
+    if (invalidPosition) {
+      sendError(socket, "createRoom", "INVALID_POSITION", invalidPosition);
+      return;
+    }
+
+    const room = createRoom({
+      timeControl: parsedTimeControl,
+      startFen: startFen && new Chess(startFen).fen(),
+      private: isPrivate
+    });
+    const roomId = room.id;
+    const seat = color === "random" ? COLORS[Math.floor(Math.random() * 2)] : color;
+    room.players[seat] = playerId;
+    saveRoom(room);
+    console.log('Room created:', roomId);
+
+    // Creating a room is sitting down, so it withdraws any open seeks
+    cancelSeeks(playerId);
+    socket.join(roomId);
+    socket.data.roomId = roomId;
+    socket.emit("roomCreated", { ...roomSnapshot(room), color: seat, chat: [] });
+  });
+
+  on(socket, "joinRoom", (roomId) => {
+    console.log('Attempting to join room:', roomId);
+    const room = rooms.get(roomId);
+    if (!room) {
+      sendError(socket, "joinRoom", "ROOM_NOT_FOUND", "Room not found");
+      return;
+    }
+
+    socket.join(roomId);
+    socket.data.roomId = roomId;
+
+    // Sitting down somewhere else withdraws any open seeks
+    cancelSeeks(playerId);
+
+    const seat = seatOf(room, playerId);
+    const freeSeat = COLORS.find(color => !room.players[color]);
+    if (seat) {
+      // The seat's owner is back, e.g. after a refresh or a dropped connection,
+      // or is taking a seat they were paired into from the lobby
+      const reconnected = Boolean(room.disconnectTimers[seat]);
+      clearTimeout(room.disconnectTimers[seat] ?? undefined);
+      room.disconnectTimers[seat] = null;
+      if (reconnected) resumeClock(room);
+      socket.emit("playerJoined", {
+        ...roomSnapshot(room),
+        color: seat,
+        playerId,
+        opponent: room.players[opponentOf(seat)] ?? null,
+        reconnected,
+        chat: chatHistory(room, false)
+      });
+      if (reconnected) socket.to(roomId).emit("playerReconnected", { color: seat, playerId });
+    } else if (freeSeat) {
+      room.players[freeSeat] = playerId;
+      saveRoom(room);
+      const opponent = room.players[opponentOf(freeSeat)];
+
+      // Send game state to the new player
+      socket.emit("playerJoined", {
+        ...roomSnapshot(room),
+        color: freeSeat,
+        playerId,
+        opponent: opponent ?? null,
+        chat: chatHistory(room, false)
+      });
+
+      // Update the player already seated, usually the room's creator
+      if (opponent) {
+        io.to(playerChannel(opponent)).emit("playerJoined", {
+          ...roomSnapshot(room),
+          color: freeSeat,
+          playerId
+        });
+        broadcastLobby();
+      }
+    } else {
+      room.spectators.push(socket.id);
+      socket.join(spectatorChannel(roomId));
+      socket.emit("joinedAsSpectator", { ...roomSnapshot(room), chat: chatHistory(room, true) });
+    }
+  });
+
+  on(socket, "leaveRoom", ({ roomId }) => {
+    socket.leave(roomId);
+    socket.leave(spectatorChannel(roomId));
+    if (socket.data.roomId === roomId) socket.data.roomId = undefined;
+
+    // Nothing to give up in a room that is already gone
+    const room = rooms.get(roomId);
+    if (!room) return;
+
+    const seat = seatOf(room, playerId);
+    if (!seat) {
+      room.spectators = room.spectators.filter(id => id !== socket.id);
+      deleteRoomIfEmpty(room);
+      return;
+    }
+    clearTimeout(room.disconnectTimers[seat] ?? undefined);
+    releaseSeat(room, seat);
+  });
+
+  on(socket, "move", ({ from, to, promotion, roomId, ply }) => {
+    const room = rooms.get(roomId);
+    if (!room) {
+      sendError(socket, "move", "ROOM_NOT_FOUND", "Room not found");
+      return;
+    }
+
+    // Tells the mover why the move did not count, with the position to roll back to
+    const reject = (reason: MoveRejectReason) => {
+      socket.emit("moveRejected", { roomId, ply, reason, snapshot: roomSnapshot(room) });
+    };
+
+    const mover = seatOf(room, playerId);
+    if (room.result) return reject("gameOver");
+    if (!mover) return reject("notSeated");
+    if (ply !== room.game.history().length) return reject("outOfSync");
+    if (room.game.turn() !== mover[0]) return reject("notYourTurn");
+
+    const { clock } = room;
+    const elapsed = clock && clock.running === mover ? Date.now() - (clock.turnStartedAt ?? Date.now()) : 0;
+    if (clock && clock.running === mover && elapsed >= clock.remaining[mover]) {
+      flagFall(room, mover);
+      return reject("gameOver");
+    }
+
+    let move;
+    try {
+      move = room.game.move({ from, to, promotion });
+    } catch (e) {
+      return reject("illegalMove");
+    }
+
+    if (clock) {
+      // The clock starts with White's first move; Bronstein delay refunds up to `delay` of the time used
+      if (clock.running === mover) {
+        clock.remaining[mover] += clock.timeControl.increment * 1000
+          - elapsed + Math.min(clock.timeControl.delay * 1000, elapsed);
+      }
+      if (!room.game.isGameOver()) {
+        startClock(room, opponentOf(mover));
+      } else {
+        // The mover has been charged already; the game-ending move stops the clock as it stands
+        clearTimeout(clock.flagTimer);
+        clock.running = null;
+        clock.turnStartedAt = null;
+      }
+    }
+
+    // Moving instead of answering declines the opponent's draw offer
+    if (room.drawOffer && room.drawOffer !== mover) {
+      room.drawOffer = null;
+      io.to(roomId).emit("drawDeclined", { by: mover });
+    }
+    // Any move makes a pending takeback request stale; clients drop it on moveMade
+    room.takebackOffer = null;
+
+    // Doubles as the mover's acknowledgement
+    io.to(roomId).emit("moveMade", {
+      roomId,
+      ply,
+      from,
+      to,
+      promotion: move.promotion,
+      san: move.san,
+      fen: room.game.fen(),
+      clock: clockState(room)
+    });
+
+    const result = adjudicate(room.game);
+    if (result) {
+      endGame(room, result);
+    } else {
+      saveRoom(room);
+    }
+  });
+
+  on(socket, "resync", ({ roomId }, ack) => {
+    const room = rooms.get(roomId);
+    ack(room ? roomSnapshot(room) : null);
+  });
+
+  on(socket, "resign", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || room.result) return;
+
+    endGame(room, { result: winFor(opponentOf(color)), reason: "resignation", loser: color });
+  });
+
+  on(socket, "offerDraw", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || room.result || !room.players[opponentOf(color)]) return;
+
+    // Offering back while the opponent's offer stands is an agreement
+    if (room.drawOffer === opponentOf(color)) {
+      endGame(room, { result: "1/2-1/2", reason: "agreement" });
+      return;
+    }
+    room.drawOffer = color;
+    saveRoom(room);
+    io.to(roomId).emit("drawOffered", { by: color });
+  });
+
+  on(socket, "acceptDraw", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || room.result || room.drawOffer !== opponentOf(color)) return;
+
+    endGame(room, { result: "1/2-1/2", reason: "agreement" });
+  });
+
+  on(socket, "declineDraw", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || room.result || room.drawOffer !== opponentOf(color)) return;
+
+    room.drawOffer = null;
+    saveRoom(room);
+    io.to(roomId).emit("drawDeclined", { by: color });
+  });
+
+  on(socket, "requestTakeback", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || room.result || !room.players[opponentOf(color)] || room.takebackOffer) return;
+    // Only a player who has moved has something to take back
+    const plies = room.game.turn() === color[0] ? 2 : 1;
+    if (room.game.history().length < plies) return;
+
+    room.takebackOffer = color;
+    saveRoom(room);
+    io.to(roomId).emit("takebackRequested", { by: color });
+  });
+
+  on(socket, "acceptTakeback", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || room.result || room.takebackOffer !== opponentOf(color)) return;
+
+    takeBack(room, opponentOf(color));
+  });
+
+  on(socket, "declineTakeback", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || room.result || room.takebackOffer !== opponentOf(color)) return;
+
+    room.takebackOffer = null;
+    saveRoom(room);
+    io.to(roomId).emit("takebackDeclined", { by: color });
+  });
+
+  on(socket, "offerRematch", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || !room.result || !room.players[opponentOf(color)]) return;
+
+    // Offering back while the opponent's offer stands is an agreement
+    if (room.rematchOffer === opponentOf(color)) {
+      startRematch(room);
+      return;
+    }
+    room.rematchOffer = color;
+    saveRoom(room);
+    io.to(roomId).emit("rematchOffered", { by: color });
+  });
+
+  on(socket, "acceptRematch", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || !room.result || room.rematchOffer !== opponentOf(color)) return;
+
+    startRematch(room);
+  });
+
+  on(socket, "declineRematch", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const color = room && seatOf(room, playerId);
+    if (!room || !color || !room.result || room.rematchOffer !== opponentOf(color)) return;
+
+    room.rematchOffer = null;
+    saveRoom(room);
+    io.to(roomId).emit("rematchDeclined", { by: color });
+  });
+
+  on(socket, "enterLobby", () => {
+    socket.join("lobby");
+    socket.emit("lobby", lobbyState());
+  });
+
+  on(socket, "leaveLobby", () => {
+    socket.leave("lobby");
+  });
+
+  on(socket, "createSeek", ({ timeControl, color, rated }) => {
+    const parsedTimeControl = parseTimeControl(timeControl);
+    if (parsedTimeControl === undefined) {
+      sendError(socket, "createSeek", "INVALID_SEEK", "Invalid seek");
+      return;
+    }
+    if (rated && !parsedTimeControl) {
+      sendError(socket, "createSeek", "RATED_NEEDS_TIME_CONTROL", "Rated games need a time control");
+      return;
+    }
+
+    const seek: Seek = { id: randomUUID(), playerId, timeControl: parsedTimeControl, color, rated, createdAt: Date.now() };
+    const match = [...seeks.values()].find(other => seeksMatch(seek, other));
+    if (match) {
+      pairSeeks(seek, match);
+      return;
+    }
+    seeks.set(seek.id, seek);
+    broadcastLobby();
+  });
+
+  on(socket, "acceptSeek", (seekId) => {
+    const seek = seeks.get(seekId);
+    if (!seek || seek.playerId === playerId) return;
+    pairSeeks({ ...seek, id: randomUUID(), playerId, color: seek.color === "random" ? "random" : opponentOf(seek.color) }, seek);
+  });
+
+  on(socket, "cancelSeek", (seekId) => {
+    const seek = seeks.get(seekId);
+    if (!seek || seek.playerId !== playerId) return;
+    seeks.delete(seekId);
+    broadcastLobby();
+  });
+
+  on(socket, "listGames", ({ mine = true, limit = 20 }, ack) => {
+    store.listGames({ playerId: mine ? playerId : undefined, limit: Math.min(Math.max(1, limit), 100) })
+      .then(games => ack({ games, profiles: profilesOf(games.flatMap(game => [game.players.white, game.players.black])) }), error => {
+        console.error("Storage error:", error);
+        ack({ games: [], profiles: {} });
+      });
+  });
+
+  on(socket, "setName", (name) => {
+    const player = players.get(playerId);
+    const trimmed = name.trim();
+    if (!player || trimmed.length < MIN_NAME_LENGTH || trimmed.length > MAX_NAME_LENGTH || !/^[\w .-]+$/.test(trimmed)) {
+      sendError(socket, "setName", "INVALID_NAME", "Invalid name");
+      return;
+    }
+    player.name = trimmed;
+    persist(store.savePlayer(player));
+    io.to(playerChannel(playerId)).emit("profile", publicProfile(playerId));
+  });
+
+  on(socket, "getLeaderboard", ({ category }, ack) => {
+    ack([...players.values()]
+      .filter(player => player.ratings[category])
+      .sort((a, b) => (b.ratings[category]?.rating ?? 0) - (a.ratings[category]?.rating ?? 0))
+      .slice(0, LEADERBOARD_SIZE)
+      .map(player => publicProfile(player.id)));
+  });
+
+  on(socket, "getRatingHistory", (id, ack) => {
+    ack({ profile: publicProfile(id), history: players.get(id)?.ratingHistory ?? [] });
+  });
+
+  on(socket, "probeTablebase", (fen, ack) => {
+    if (positionError(fen)) {
+      ack(null);
+      return;
+    }
+    tablebase.probe(fen).then(ack, error => {
+      console.error("Tablebase error:", error);
+      ack(null);
+    });
+  });
+
+  on(socket, "chatMessage", ({ roomId, text }) => {
+    const room = rooms.get(roomId);
+    if (!room) {
+      sendError(socket, "chatMessage", "ROOM_NOT_FOUND", "Room not found");
+      return;
+    }
+    const seat = seatOf(room, playerId);
+    const stream = seat ? "players" : room.spectators.includes(socket.id) ? "spectators" : null;
+    const trimmed = text.trim();
+    if (!stream || !trimmed) return;
+    if (trimmed.length > MAX_CHAT_LENGTH) {
+      sendError(socket, "chatMessage", "MESSAGE_TOO_LONG", "Message too long");
+      return;
+    }
+
+    const now = Date.now();
+    const recent = (socket.data.chatSentAt ?? []).filter(at => now - at < CHAT_RATE_WINDOW_MS);
+    socket.data.chatSentAt = recent;
+    if (recent.length >= CHAT_RATE_LIMIT) {
+      sendError(socket, "chatMessage", "RATE_LIMITED", "You are sending messages too quickly");
+      return;
+    }
+    recent.push(now);
+
+    const message: ChatMessage = { id: randomUUID(), stream, playerId, name: publicProfile(playerId).name, text: trimmed, at: now };
+    room.chat[stream] = [...room.chat[stream], message].slice(-CHAT_HISTORY_LIMIT);
+    // Spectators read the players' chat, but not the other way round
+    io.to(stream === "players" ? roomId : spectatorChannel(roomId)).emit("chat", message);
+  });
+
+  on(socket, "getGame", (gameId, ack) => {
+    store.getGame(gameId).then(ack, error => {
+      console.error("Storage error:", error);
+      ack(null);
+    });
+  });
+
+  socket.on("disconnect", () => {
+    if (!isConnected(playerId)) cancelSeeks(playerId);
+
+    const room = socket.data.roomId && rooms.get(socket.data.roomId);
+    if (!room) return;
+
+    const seat = seatOf(room, playerId);
+    if (!seat) {
+      room.spectators = room.spectators.filter(id => id !== socket.id);
+      deleteRoomIfEmpty(room);
+      return;
+    }
+
+    // Another tab, or a reconnect that beat this disconnect, still holds the seat
+    if (isConnected(playerId) || room.disconnectTimers[seat]) return;
+
+    holdSeat(room, seat);
+    io.to(room.id).emit("playerDisconnected", { color: seat, playerId, graceMs: RECONNECT_GRACE_MS });
+  });
+});
+
+const PORT = process.env.PORT || 3001;
+
+// Loads players and rooms before accepting connections
+const start = async () => {
+  store = await openStore();
+  tablebase = await openTablebase();
+  for (const player of await store.listPlayers()) {
+    players.set(player.id, player);
+    sessions.set(player.token, player);
+  }
+  for (const stored of await store.listRooms()) {
+    try {
+      restoreRoom(stored);
+    } catch (e) {
+      console.error("Could not restore room", stored.id, e);
+    }
+  }
+
+  httpServer.listen(PORT, () => {
+    console.log(`WebSocket server running on port ${PORT}`);
+  });
+};
+
+start().catch(error => {
+  console.error("Could not start the server:", error);
+  process.exit(1);
+});
@@ -0,0 +1,133 @@
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+import type { ClockColor, TimeControl, TimeControlCategory } from '../src/lib/clock.ts';
+import type { ArchivedGame, GameOver, Rating, RatingHistoryEntry } from '../src/lib/protocol.ts';
+
+// Persistence for the multiplayer server. Every backend implements the same
+// async interface, so the server does not care where the data lives.
+
+export interface StoredPlayer {
+  // Public player id
+  id: string;
+  // Private session token
+  token: string;
+  // Display name chosen by the player
+  name: string | null;
+  // Glicko-2 rating per time-control category
+  ratings: Partial<Record<TimeControlCategory, Rating>>;
+  ratingHistory: RatingHistoryEntry[];
+  createdAt: number;
+  lastSeenAt: number;
+}
+
+export interface StoredRoom {
+  id: string;
+  // Id the current game will be archived under
+  gameId: string;
+  players: { white?: string, black?: string };
+  startFen: string;
+  // SAN moves from startFen
+  moves: string[];
+  timeControl: TimeControl | null;
+  clock: { white: number, black: number, running: ClockColor | null } | null;
+  result: GameOver | null;
+  drawOffer: ClockColor | null;
+  takebackOffer: ClockColor | null;
+  rematchOffer: ClockColor | null;
+  rated: boolean;
+  private: boolean;
+  createdAt: number;
+}
+
+export type StoredGame = ArchivedGame;
+
+export interface GameStore {
+  listPlayers: () => Promise<StoredPlayer[]>;
+  savePlayer: (player: StoredPlayer) => Promise<void>;
+  listRooms: () => Promise<StoredRoom[]>;
+  saveRoom: (room: StoredRoom) => Promise<void>;
+  deleteRoom: (roomId: string) => Promise<void>;
+  saveGame: (game: StoredGame) => Promise<void>;
+  getGame: (gameId: string) => Promise<StoredGame | null>;
+  listGames: (options?: { playerId?: string, limit?: number }) => Promise<StoredGame[]>;
+}
+
+interface StoreData {
+  players: Record<string, StoredPlayer>;
+  rooms: Record<string, StoredRoom>;
+  games: Record<string, StoredGame>;
+}
+
+export const createMemoryStore = (initial: Partial<StoreData> = {}): GameStore & { data: StoreData } => {
+  const data: StoreData = { players: {}, rooms: {}, games: {}, ...initial };
+
+  return {
+    data,
+    listPlayers: async () => Object.values(data.players),
+    savePlayer: async (player) => {
+      data.players[player.id] = player;
+    },
+    listRooms: async () => Object.values(data.rooms),
+    saveRoom: async (room) => {
+      data.rooms[room.id] = room;
+    },
+    deleteRoom: async (roomId) => {
+      delete data.rooms[roomId];
+    },
+    saveGame: async (game) => {
+      data.games[game.id] = game;
+    },
+    getGame: async (gameId) => data.games[gameId] ?? null,
+    listGames: async ({ playerId, limit = 20 } = {}) =>
+      Object.values(data.games)
+        .filter(game => !playerId || game.players.white === playerId || game.players.black === playerId)
+        .sort((a, b) => b.endedAt - a.endedAt)
+        .slice(0, limit)
+  };
+};
+
+// Keeps everything in memory and writes a JSON snapshot after each change.
+// Writes are atomic (temp file + rename) and coalesced while one is in flight.
+export const createFileStore = async (file: string): Promise<GameStore> => {
+  let initial: Partial<StoreData> = {};
+  try {
+    initial = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+  }
+  const memory = createMemoryStore(initial);
+
+  const write = async () => {
+    await mkdir(dirname(file), { recursive: true });
+    await writeFile(`${file}.tmp`, JSON.stringify(memory.data));
+    await rename(`${file}.tmp`, file);
+  };
+
+  let writing: Promise<void> = Promise.resolve();
+  let queued: Promise<void> | null = null;
+  const flush = () => {
+    queued ??= writing.catch(() => undefined).then(() => {
+      queued = null;
+      return write();
+    });
+    writing = queued;
+    return queued;
+  };
+
+  const persisted = <T extends unknown[]>(method: (...args: T) => Promise<void>) => async (...args: T) => {
+    await method(...args);
+    await flush();
+  };
+
+  return {
+    ...memory,
+    savePlayer: persisted(memory.savePlayer),
+    saveRoom: persisted(memory.saveRoom),
+    deleteRoom: persisted(memory.deleteRoom),
+    saveGame: persisted(memory.saveGame)
+  };
+};
+
+// STORE=memory keeps nothing across restarts; otherwise DATA_FILE (default data/chessdojo.json)
+export const openStore = async (env = process.env): Promise<GameStore> =>
+  env.STORE === 'memory' ? createMemoryStore() : createFileStore(env.DATA_FILE || 'data/chessdojo.json');
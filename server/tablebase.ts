@@ -0,0 +1,136 @@
+import { spawn } from 'child_process';
+import { readdir } from 'fs/promises';
+import { delimiter } from 'path';
+import { TABLEBASE_TIMEOUT_MS, type TablebaseResult } from '../src/lib/protocol.ts';
+
+// Syzygy probing for the endgame trainer. Browsers cannot read the tablebase
+// files, so a native Stockfish with SyzygyPath set reads them for us:
+// SYZYGY_PATH enables it, STOCKFISH_PATH names the binary (default "stockfish").
+// Without the files or the binary, every probe simply answers null.
+
+export interface Tablebase {
+  // Null when the files do not cover the position or the probe failed
+  probe: (fen: string) => Promise<TablebaseResult | null>;
+}
+
+// Allowed once for the search and once more for the engine to settle after a stop,
+// so even a stuck probe is over while the client is still waiting for the answer
+const PROBE_TIMEOUT_MS = TABLEBASE_TIMEOUT_MS / 3;
+// Tablebase wins come out of Stockfish as scores far beyond any real evaluation
+const DECISIVE_CP = 1000;
+
+// The biggest table present, e.g. 5 for KRPvKR.rtbw; 0 when there are none
+const largestTable = async (paths: string): Promise<number> => {
+  let largest = 0;
+  for (const path of paths.split(delimiter).filter(Boolean)) {
+    const files = await readdir(path).catch(() => [] as string[]);
+    for (const file of files) {
+      const match = /^([KQRBNP]+)v([KQRBNP]+)\.rtbw$/.exec(file);
+      if (match) largest = Math.max(largest, match[1].length + match[2].length);
+    }
+  }
+  return largest;
+};
+
+const pieceCount = (fen: string) => fen.split(' ')[0].replace(/[^a-zA-Z]/g, '').length;
+
+const disabled: Tablebase = { probe: () => Promise.resolve(null) };
+
+export const openTablebase = async (env = process.env): Promise<Tablebase> => {
+  const syzygyPath = env.SYZYGY_PATH;
+  if (!syzygyPath) return disabled;
+  const maxPieces = await largestTable(syzygyPath);
+  if (maxPieces === 0) {
+    console.warn(`No Syzygy tables found in ${syzygyPath}, tablebase probing is off`);
+    return disabled;
+  }
+
+  const engine = spawn(env.STOCKFISH_PATH || 'stockfish', [], { stdio: ['pipe', 'pipe', 'ignore'] });
+  let available = true;
+  let onLine: ((line: string) => void) | null = null;
+  let buffered = '';
+
+  engine.on('error', error => {
+    console.error('Could not start the tablebase engine:', error.message);
+    available = false;
+  });
+  engine.on('exit', () => {
+    available = false;
+  });
+  // Writes to an engine that died fail here instead of crashing the server
+  engine.stdin.on('error', () => {
+    available = false;
+  });
+  engine.stdout.on('data', (chunk: Buffer) => {
+    buffered += chunk.toString();
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    lines.forEach(line => onLine?.(line.trim()));
+  });
+  const send = (command: string) => {
+    if (available) engine.stdin.write(`${command}\n`);
+  };
+
+  // Runs one command and collects output until `done` matches, or gives up
+  const run = (command: string, done: (line: string) => boolean): Promise<string[] | null> =>
+    new Promise(resolve => {
+      const lines: string[] = [];
+      const finish = (result: string[] | null) => {
+        clearTimeout(timer);
+        onLine = null;
+        resolve(result);
+      };
+      // Stockfish answers isready only once the stopped search has printed its
+      // bestmove, so waiting for readyok keeps that line away from the next probe.
+      // An engine that does not answer at all is given up on.
+      let timer = setTimeout(() => {
+        onLine = line => {
+          if (line === 'readyok') finish(null);
+        };
+        timer = setTimeout(() => {
+          available = false;
+          engine.kill();
+          finish(null);
+        }, PROBE_TIMEOUT_MS);
+        send('stop');
+        send('isready');
+      }, PROBE_TIMEOUT_MS);
+      onLine = line => {
+        lines.push(line);
+        if (done(line)) finish(lines);
+      };
+      send(command);
+    });
+
+  // Probes run one at a time; the engine only does one thing at once
+  let queue: Promise<unknown> = run('uci', line => line === 'uciok').then(() => {
+    send(`setoption name SyzygyPath value ${syzygyPath}`);
+    return run('isready', line => line === 'readyok');
+  });
+
+  const probe = async (fen: string): Promise<TablebaseResult | null> => {
+    if (!available || pieceCount(fen) > maxPieces) return null;
+    send(`position fen ${fen}`);
+    const lines = await run('go depth 1', line => line.startsWith('bestmove'));
+    if (!lines) return null;
+
+    // Stockfish only reports tablebase hits when the root position is in the tables
+    const info = lines.filter(line => line.startsWith('info ') && / score /.test(line)).at(-1);
+    const score = info && / tbhits [1-9]/.test(info) ? / score (cp|mate) (-?\d+)/.exec(info) : null;
+    const bestMove = lines.at(-1)?.split(' ')[1];
+    if (!score || !bestMove || bestMove === '(none)') return null;
+
+    const value = Number(score[2]);
+    const decisive = score[1] === 'mate' || Math.abs(value) >= DECISIVE_CP;
+    return { wdl: !decisive ? 'draw' : value > 0 ? 'win' : 'loss', bestMove };
+  };
+
+  console.log(`Probing Syzygy tables up to ${maxPieces} pieces from ${syzygyPath}`);
+  return {
+    probe: (fen) => {
+      const result = queue.then(() => probe(fen));
+      queue = result.catch(() => null);
+      return result;
+    }
+  };
+};
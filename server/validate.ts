@@ -0,0 +1,71 @@
+import {
+  MAX_CHAT_LENGTH, PROMOTION_PIECES, RATING_CATEGORIES, type ClientToServerEvents
+} from '../src/lib/protocol.ts';
+
+// The event types only bind our own client, so every incoming payload is
+// checked against them before a handler sees it. Range and business rules
+// (time control limits, name characters, ...) stay with the handlers.
+
+type Check = (value: unknown) => boolean;
+
+const isString: Check = (value) => typeof value === "string";
+const isBoolean: Check = (value) => typeof value === "boolean";
+const isNumber: Check = (value) => typeof value === "number" && Number.isFinite(value);
+const isPly: Check = (value) => Number.isInteger(value) && (value as number) >= 0;
+const isFunction: Check = (value) => typeof value === "function";
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const optional = (check: Check): Check => (value) => value === undefined || check(value);
+const nullable = (check: Check): Check => (value) => value === null || check(value);
+const oneOf = (values: readonly unknown[]): Check => (value) => values.includes(value);
+// Strings get a generous cap so nobody can make us store or echo megabytes
+const shortString = (max: number): Check => (value) => isString(value) && (value as string).length <= max;
+const shape = (fields: Record<string, Check>): Check => (value) =>
+  isObject(value) && Object.entries(fields).every(([key, check]) => check(value[key]));
+
+const isId = shortString(64);
+const isSquare: Check = (value) => isString(value) && /^[a-h][1-8]$/.test(value as string);
+const timeControl = nullable(shape({ initial: isNumber, increment: isNumber, delay: isNumber }));
+const roomRequest = shape({ roomId: isId });
+const seekColor = oneOf(["white", "black", "random"]);
+// Longer than any legal FEN
+const isFen = shortString(100);
+
+// One check per argument, acks included
+const eventChecks: { [E in keyof ClientToServerEvents]: Check[] } = {
+  createRoom: [shape({ timeControl, color: seekColor, startFen: optional(isFen), private: isBoolean })],
+  joinRoom: [isId],
+  leaveRoom: [roomRequest],
+  move: [shape({ roomId: isId, ply: isPly, from: isSquare, to: isSquare, promotion: optional(oneOf(PROMOTION_PIECES)) })],
+  resync: [roomRequest, isFunction],
+  resign: [roomRequest],
+  offerDraw: [roomRequest],
+  acceptDraw: [roomRequest],
+  declineDraw: [roomRequest],
+  requestTakeback: [roomRequest],
+  acceptTakeback: [roomRequest],
+  declineTakeback: [roomRequest],
+  offerRematch: [roomRequest],
+  acceptRematch: [roomRequest],
+  declineRematch: [roomRequest],
+  // Over-long messages are let through so the handler can report them properly
+  chatMessage: [shape({ roomId: isId, text: shortString(MAX_CHAT_LENGTH * 10) })],
+  enterLobby: [],
+  leaveLobby: [],
+  createSeek: [shape({ timeControl, color: seekColor, rated: isBoolean })],
+  acceptSeek: [isId],
+  cancelSeek: [isId],
+  listGames: [shape({ mine: optional(isBoolean), limit: optional(isNumber) }), isFunction],
+  getGame: [isId, isFunction],
+  setName: [shortString(200)],
+  getLeaderboard: [shape({ category: oneOf(RATING_CATEGORIES) }), isFunction],
+  getRatingHistory: [isId, isFunction],
+  probeTablebase: [isFen, isFunction]
+};
+
+export const isValidPayload = <E extends keyof ClientToServerEvents>(
+  event: E,
+  args: unknown[]
+): args is Parameters<ClientToServerEvents[E]> => eventChecks[event].every((check, index) => check(args[index]));
@@ -1,40 +1,96 @@
 
 import React, { useState } from 'react';
+import BoardEditor from './components/boardeditor';
 import ChessDojo from './components/chessdojo';
 import ChessMatch from './components/chessmatch';
 import ChessMultiplayer from './components/chessmultiplayer';
+import EndgameTrainer from './components/endgametrainer';
+import PuzzleTrainer from './components/puzzletrainer';
+import ReviewSession from './components/reviewsession';
+import { EditorTarget } from './lib/boardeditor';
+import { roomIdFromPath } from './lib/multiplayer';
+
+type GameMode = 'dojo' | 'match' | 'multiplayer' | 'puzzles' | 'endgames' | 'review' | 'editor';
+
+// An invite link opens straight into its multiplayer room
+const inviteRoomId = roomIdFromPath(window.location.pathname);
 
 export default function App(){
-  const [gameMode, setGameMode] = useState<'dojo' | 'match' | 'multiplayer'>('dojo');
+  const [gameMode, setGameMode] = useState<GameMode>(inviteRoomId ? 'multiplayer' : 'dojo');
+  // A position sent from the board editor, used by the mode it was sent to until the mode changes
+  const [setup, setSetup] = useState<{ target: EditorTarget, fen: string } | null>(null);
   const MemoizedChessDojo = React.memo(ChessDojo);
   const MemoizedChessMatch = React.memo(ChessMatch);
   const MemoizedChessMultiplayer = React.memo(ChessMultiplayer);
 
+  const switchMode = (mode: GameMode) => {
+    setGameMode(mode);
+    setSetup(null);
+  };
+  const setupFen = (target: EditorTarget) => setup?.target === target ? setup.fen : undefined;
+
   return (
     <div className="flex flex-col justify-center items-center bg-red-100 min-h-screen">
       <div className="flex space-x-4 mb-4">
         <button 
-          onClick={() => setGameMode('dojo')}
+          onClick={() => switchMode('dojo')}
           className={`px-4 py-2 rounded ${gameMode === 'dojo' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
         >
           Chess Dojo
         </button>
         <button 
-          onClick={() => setGameMode('match')}
+          onClick={() => switchMode('match')}
           className={`px-4 py-2 rounded ${gameMode === 'match' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
         >
           Chess Match
         </button>
         <button 
-          onClick={() => setGameMode('multiplayer')}
+          onClick={() => switchMode('multiplayer')}
           className={`px-4 py-2 rounded ${gameMode === 'multiplayer' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
         >
           Multiplayer
         </button>
+        <button 
+          onClick={() => switchMode('puzzles')}
+          className={`px-4 py-2 rounded ${gameMode === 'puzzles' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+        >
+          Puzzles
+        </button>
+        <button 
+          onClick={() => switchMode('endgames')}
+          className={`px-4 py-2 rounded ${gameMode === 'endgames' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+        >
+          Endgames
+        </button>
+        <button 
+          onClick={() => switchMode('review')}
+          className={`px-4 py-2 rounded ${gameMode === 'review' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+        >
+          Daily Review
+        </button>
+        <button 
+          onClick={() => switchMode('editor')}
+          className={`px-4 py-2 rounded ${gameMode === 'editor' ? 'bg-blue-500 text-white' : 'bg-gray-200'}`}
+        >
+          Board Editor
+        </button>
       </div>
-      {gameMode === 'dojo' && <MemoizedChessDojo />}
-      {gameMode === 'match' && <MemoizedChessMatch />}
-      {gameMode === 'multiplayer' && <MemoizedChessMultiplayer />}
+      {gameMode === 'dojo' && <MemoizedChessDojo startFen={setupFen('dojo')} />}
+      {gameMode === 'match' && <MemoizedChessMatch startFen={setupFen('match')} />}
+      {gameMode === 'multiplayer' && (
+        <MemoizedChessMultiplayer inviteRoomId={inviteRoomId} startFen={setupFen('multiplayer')} />
+      )}
+      {gameMode === 'puzzles' && <PuzzleTrainer />}
+      {gameMode === 'endgames' && <EndgameTrainer />}
+      {gameMode === 'review' && <ReviewSession />}
+      {gameMode === 'editor' && (
+        <BoardEditor
+          onUse={(target, fen) => {
+            setGameMode(target);
+            setSetup({ target, fen });
+          }}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
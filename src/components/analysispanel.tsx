@@ -0,0 +1,73 @@
+import React from 'react';
+import { Switch } from './ui/switch';
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from './ui/select';
+import { AnalysisLine, formatScore, pvToSan } from '../lib/evaluation';
+
+interface AnalysisPanelProps {
+  fen: string;
+  lines: AnalysisLine[];
+  enabled: boolean;
+  onEnabledChange: (enabled: boolean) => void;
+  multiPv: number;
+  onMultiPvChange: (multiPv: number) => void;
+  // Plays the first move of a line
+  onPlay: (uci: string) => void;
+}
+
+const MAX_MULTI_PV = 5;
+// Long lines wrap badly and their tails are rarely meaningful
+const SHOWN_PLIES = 12;
+
+const AnalysisPanel: React.FC<AnalysisPanelProps> = ({
+  fen, lines, enabled, onEnabledChange, multiPv, onMultiPvChange, onPlay
+}) => {
+  const [, turn, , , , fullMove] = fen.split(' ');
+
+  // SAN with move numbers, e.g. "12... Nf6 13. Bg5"
+  const formatLine = (pv: string[]) => pvToSan(fen, pv, SHOWN_PLIES).map((san, index) => {
+    const whiteMoves = turn === 'w' ? index % 2 === 0 : index % 2 === 1;
+    const number = Number(fullMove) + Math.floor((index + (turn === 'w' ? 0 : 1)) / 2);
+    if (whiteMoves) return `${number}. ${san}`;
+    return index === 0 ? `${number}... ${san}` : san;
+  }).join(' ');
+
+  return (
+    <div className='w-full mt-4 p-2 border rounded'>
+      <div className='flex items-center space-x-2 mb-2'>
+        <Switch checked={enabled} onCheckedChange={onEnabledChange} />
+        <span className='font-semibold'>Engine analysis</span>
+        <Select value={String(multiPv)} onValueChange={(value) => onMultiPvChange(Number(value))}>
+          <SelectTrigger className='w-[100px]'>
+            <SelectValue placeholder='Lines' />
+          </SelectTrigger>
+          <SelectContent className='bg-white'>
+            {Array.from({ length: MAX_MULTI_PV }, (_, index) => index + 1).map(count => (
+              <SelectItem key={count} value={String(count)}>{count} line{count === 1 ? '' : 's'}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {enabled && lines[0] && <span className='text-sm text-gray-500'>depth {lines[0].depth}</span>}
+      </div>
+      {enabled && (
+        lines.length === 0 ? (
+          <p className='text-sm text-gray-500'>Analysing...</p>
+        ) : (
+          <ul className='text-sm font-mono'>
+            {lines.map(line => (
+              <li
+                key={line.multipv}
+                className='flex cursor-pointer hover:bg-gray-100 rounded px-1'
+                onClick={() => line.pv[0] && onPlay(line.pv[0])}
+              >
+                <span className='w-16 shrink-0 font-semibold'>{formatScore(line.score)}</span>
+                <span className='truncate'>{formatLine(line.pv)}</span>
+              </li>
+            ))}
+          </ul>
+        )
+      )}
+    </div>
+  );
+};
+
+export default AnalysisPanel;
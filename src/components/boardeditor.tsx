@@ -0,0 +1,177 @@
+import React, { useState } from 'react';
+import { Chessboard, ChessboardDnDProvider, SparePiece } from 'react-chessboard';
+import { Color, Square } from 'chess.js';
+import { Button } from './ui/button';
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from './ui/select';
+import {
+  BoardPiece, EditorPosition, EditorTarget, SPARE_PIECES, canCastle, castlingLabels, emptyPosition,
+  enPassantSquares, fromFen, startingPosition, toFen
+} from '../lib/boardeditor';
+import { CASTLING_RIGHTS, positionError } from '../lib/game';
+
+interface BoardEditorProps {
+  onUse: (target: EditorTarget, fen: string) => void;
+}
+
+// Spare pieces and board pieces share one drag and drop context, keyed by this id
+const BOARD_ID = 'board-editor';
+const SPARE_PIECE_WIDTH = 48;
+
+const targetLabels: Record<EditorTarget, string> = {
+  match: 'Analyse in Chess Match',
+  dojo: 'Play the Engine in the Dojo',
+  multiplayer: 'Start a Multiplayer Game',
+};
+
+const BoardEditor: React.FC<BoardEditorProps> = ({ onUse }) => {
+  const [position, setPosition] = useState<EditorPosition>(startingPosition);
+  const [boardOrientation, setBoardOrientation] = useState<'white' | 'black'>('white');
+  const [fenInput, setFenInput] = useState<string>('');
+  const [fenMessage, setFenMessage] = useState<string>('');
+
+  const fen = toFen(position);
+  const error = positionError(fen);
+  const enPassantOptions = enPassantSquares(position.pieces, position.turn);
+
+  const placePieces = (update: (pieces: EditorPosition['pieces']) => void) => {
+    const pieces = { ...position.pieces };
+    update(pieces);
+    setPosition({ ...position, pieces });
+  };
+
+  const onSparePieceDrop = (piece: BoardPiece, square: Square): boolean => {
+    placePieces(pieces => { pieces[square] = piece; });
+    return true;
+  };
+
+  const onPieceDrop = (from: Square, to: Square, piece: BoardPiece): boolean => {
+    placePieces(pieces => {
+      delete pieces[from];
+      pieces[to] = piece;
+    });
+    return true;
+  };
+
+  const removePiece = (square: Square) => placePieces(pieces => { delete pieces[square]; });
+
+  const loadFen = () => {
+    const loaded = fromFen(fenInput);
+    if (typeof loaded === 'string') {
+      setFenMessage(loaded);
+      return;
+    }
+    setPosition(loaded);
+    setFenInput('');
+    setFenMessage('');
+  };
+
+  const copyFen = () => {
+    navigator.clipboard.writeText(fen).then(
+      () => setFenMessage('FEN copied'),
+      () => setFenMessage('Could not copy the FEN')
+    );
+  };
+
+  const spareTray = (color: Color) => (
+    <div className='flex justify-center my-2'>
+      {SPARE_PIECES[color].map(piece => (
+        <SparePiece key={piece} piece={piece} width={SPARE_PIECE_WIDTH} dndId={BOARD_ID} />
+      ))}
+    </div>
+  );
+
+  return (
+    <div className='flex flex-col items-center p-4 w-1/2 mb-4'>
+      <h1 className='text-2xl font-bold mb-4'>Board Editor</h1>
+      <ChessboardDnDProvider>
+        <div className='w-full'>
+          {spareTray(boardOrientation === 'white' ? 'b' : 'w')}
+          <Chessboard
+            id={BOARD_ID}
+            position={position.pieces}
+            boardOrientation={boardOrientation}
+            onPieceDrop={onPieceDrop}
+            onSparePieceDrop={onSparePieceDrop}
+            dropOffBoardAction='trash'
+            onPieceDropOffBoard={removePiece}
+            onSquareRightClick={removePiece}
+          />
+          {spareTray(boardOrientation === 'white' ? 'w' : 'b')}
+        </div>
+      </ChessboardDnDProvider>
+      <p className='text-sm text-gray-600 mb-4'>
+        Drag pieces from the trays onto the board. Drag a piece off the board or right-click it to remove it.
+      </p>
+      <div className='flex flex-wrap items-center gap-4 mb-4'>
+        <Select value={position.turn} onValueChange={(value) => setPosition({ ...position, turn: value as Color })}>
+          <SelectTrigger className='w-[150px]'>
+            <SelectValue placeholder='Side to move' />
+          </SelectTrigger>
+          <SelectContent className='bg-white'>
+            <SelectItem value='w'>White to move</SelectItem>
+            <SelectItem value='b'>Black to move</SelectItem>
+          </SelectContent>
+        </Select>
+        {CASTLING_RIGHTS.map(right => (
+          <label key={right} className='flex items-center space-x-1'>
+            <input
+              type='checkbox'
+              checked={position.castling[right] && canCastle(position.pieces, right)}
+              disabled={!canCastle(position.pieces, right)}
+              onChange={(e) => setPosition({ ...position, castling: { ...position.castling, [right]: e.target.checked } })}
+            />
+            <span>{castlingLabels[right]}</span>
+          </label>
+        ))}
+        <Select
+          value={position.enPassant && enPassantOptions.includes(position.enPassant) ? position.enPassant : 'none'}
+          onValueChange={(value) => setPosition({ ...position, enPassant: value === 'none' ? null : value as Square })}
+          disabled={enPassantOptions.length === 0}
+        >
+          <SelectTrigger className='w-[170px]'>
+            <SelectValue placeholder='En passant' />
+          </SelectTrigger>
+          <SelectContent className='bg-white'>
+            <SelectItem value='none'>No en passant</SelectItem>
+            {enPassantOptions.map(square => (
+              <SelectItem key={square} value={square}>En passant on {square}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className='flex space-x-4 mb-4'>
+        <Button onClick={() => setPosition(startingPosition())}>Starting Position</Button>
+        <Button onClick={() => setPosition(emptyPosition())}>Clear Board</Button>
+        <Button onClick={() => setBoardOrientation(boardOrientation === 'white' ? 'black' : 'white')}>Flip Board</Button>
+      </div>
+      <div className='flex w-full space-x-2 mb-2'>
+        <input type='text' value={fen} readOnly className='px-2 py-1 border rounded flex-grow font-mono text-sm' />
+        <Button onClick={copyFen}>Copy FEN</Button>
+      </div>
+      <div className='flex w-full space-x-2 mb-2'>
+        <input
+          type='text'
+          value={fenInput}
+          placeholder='Paste a FEN'
+          className='px-2 py-1 border rounded flex-grow font-mono text-sm'
+          onChange={(e) => setFenInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && fenInput.trim()) loadFen();
+          }}
+        />
+        <Button onClick={loadFen} disabled={!fenInput.trim()}>Load FEN</Button>
+      </div>
+      {fenMessage && <p className='text-sm text-gray-600 mb-2'>{fenMessage}</p>}
+      {error && <p className='text-sm text-red-600 mb-2'>{error}</p>}
+      <div className='flex space-x-4 mt-2'>
+        {(Object.keys(targetLabels) as EditorTarget[]).map(target => (
+          <Button key={target} onClick={() => onUse(target, fen)} disabled={Boolean(error)}>
+            {targetLabels[target]}
+          </Button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default BoardEditor;
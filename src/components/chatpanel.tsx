@@ -0,0 +1,81 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Button } from './ui/button';
+import { ChatMessage, ChatStream, MAX_CHAT_LENGTH } from '../lib/protocol';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  // Streams this user may read; they can only write to their own
+  streams: ChatStream[];
+  ownStream: ChatStream;
+  playerId: string | null;
+  onSend: (text: string) => void;
+}
+
+const streamLabels: Record<ChatStream, string> = {
+  players: 'Players',
+  spectators: 'Spectators',
+};
+
+const ChatPanel: React.FC<ChatPanelProps> = ({ messages, streams, ownStream, playerId, onSend }) => {
+  const [stream, setStream] = useState<ChatStream>(ownStream);
+  const [text, setText] = useState<string>('');
+  const listRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setStream(ownStream);
+  }, [ownStream]);
+
+  const visible = messages.filter(message => message.stream === stream);
+
+  // Keep the newest message in view
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [visible.length]);
+
+  const send = () => {
+    if (!text.trim()) return;
+    onSend(text.trim());
+    setText('');
+  };
+
+  return (
+    <div className='flex flex-col w-64 h-96 border rounded'>
+      <div className='flex border-b'>
+        {streams.map(option => (
+          <button
+            key={option}
+            className={`flex-1 p-2 text-sm ${option === stream ? 'font-semibold bg-gray-100' : ''}`}
+            onClick={() => setStream(option)}
+          >
+            {streamLabels[option]}
+          </button>
+        ))}
+      </div>
+      <div ref={listRef} className='flex-1 overflow-y-auto p-2 text-sm space-y-1'>
+        {visible.length === 0 && <p className='text-gray-500'>No messages yet</p>}
+        {visible.map(message => (
+          <p key={message.id} className='break-words'>
+            <span className={`font-semibold ${message.playerId === playerId ? 'text-blue-700' : ''}`}>{message.name}:</span>{' '}
+            {message.text}
+          </p>
+        ))}
+      </div>
+      {stream === ownStream && (
+        <div className='flex p-2 space-x-2 border-t'>
+          <input
+            type='text'
+            value={text}
+            placeholder='Say something'
+            maxLength={MAX_CHAT_LENGTH}
+            className='flex-1 min-w-0 px-2 py-1 border rounded'
+            onChange={(e) => setText(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && send()}
+          />
+          <Button size='sm' onClick={send} disabled={!text.trim()}>Send</Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ChatPanel;
@@ -0,0 +1,38 @@
+import React, { useState, useEffect } from 'react';
+import { ClockColor, ClockState, formatClock, remainingTime } from '../lib/clock';
+
+interface ChessClockProps {
+  clock: ClockState;
+  color: ClockColor;
+  receivedAt: number;
+}
+
+const LOW_TIME_MS = 20000;
+
+const ChessClock: React.FC<ChessClockProps> = ({ clock, color, receivedAt }) => {
+  const [now, setNow] = useState<number>(Date.now());
+  const isRunning = clock.running === color;
+
+  useEffect(() => {
+    setNow(Date.now());
+    if (!isRunning) return;
+    const interval = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(interval);
+  }, [isRunning, receivedAt]);
+
+  const remaining = remainingTime(clock, color, receivedAt, now);
+
+  return (
+    <div
+      className={`px-3 py-1 rounded font-mono text-xl ${
+        isRunning
+          ? remaining < LOW_TIME_MS ? 'bg-red-500 text-white' : 'bg-green-600 text-white'
+          : 'bg-gray-200 text-gray-700'
+      }`}
+    >
+      {color === 'white' ? 'White' : 'Black'} {formatClock(remaining)}
+    </div>
+  );
+};
+
+export default ChessClock;
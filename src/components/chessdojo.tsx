@@ -1,74 +1,54 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Chessboard } from 'react-chessboard';
 import { Chess } from 'chess.js';
 import { Button } from './ui/button';
 import { Switch } from './ui/switch';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from './ui/select';
+import { Opening, openings } from '../lib/openings';
+import { isCancelled, uciToMove } from '../lib/engine';
+import { evaluatePosition } from '../lib/evaluation';
+import OpeningTrainer from './openingtrainer';
+import GameReview from './gamereview';
+import { cloneGame, getStartFen, promotionHandler } from '../lib/game';
+import { createGameRecord, downloadPgn, gameResult, toPgn } from '../lib/pgn';
+import {
+  HINT_LEVELS, Hint, HintUsage, HintedGame, createHint, describeTheme, hintComments, hintCounts, hintLabels,
+  independence, loadHintHistory, recordHint, saveHintedGame
+} from '../lib/hints';
+import {
+  BotSettings, PersonalityId, botLevels, botPersonalities,
+  loadBotSettings, requestBotMove, saveBotSettings
+} from '../lib/bots';
 
-type Opening = 'Italian Game' | 'French Defense' | 'Scandinavian Defense' | 
-               'King\'s Indian Attack' | 'London System' | 'Caro-Kann Defense' | 
-               'Ruy Lopez' | 'Sicilian Defense' | 'Queen\'s Gambit';
-
-const openings: Record<Opening, { fen: string, description: string }> = {
-  'Italian Game': {
-    fen: 'r1bqkbnr/pppp1ppp/2n5/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3',
-    description: 'A solid opening that develops pieces quickly and controls the center.'
-  },
-  'French Defense': {
-    fen: 'rnbqkbnr/pppp1ppp/4p3/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
-    description: 'A solid defense that can lead to closed positions, good for strategic play.'
-  },
-  'Scandinavian Defense': {
-    fen: 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
-    description: 'An aggressive defense that immediately challenges White\'s center control.'
-  },
-  'King\'s Indian Attack': {
-    fen: 'rnbqkbnr/pppppppp/8/8/8/5NP1/PPPPPP1P/RNBQKB1R b KQkq - 0 2',
-    description: 'A flexible opening system that can be used against various Black setups.'
-  },
-  'London System': {
-    fen: 'rnbqkbnr/pppppppp/8/8/3P4/2N5/PPP1PPPP/R1BQKBNR b KQkq - 1 2',
-    description: 'A solid, easy-to-learn opening that develops pieces to good squares.'
-  },
-  'Caro-Kann Defense': {
-    fen: 'rnbqkbnr/pp1ppppp/2p5/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
-    description: 'A solid defense that leads to a strong pawn structure for Black.'
-  },
-  'Ruy Lopez': {
-    fen: 'r1bqkbnr/pppp1ppp/2n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3',
-    description: 'One of the oldest and most classic openings, focusing on controlling the center.'
-  },
-  'Sicilian Defense': {
-    fen: 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
-    description: 'An aggressive defense that leads to sharp, complex positions.'
-  },
-  'Queen\'s Gambit': {
-    fen: 'rnbqkbnr/ppp1pppp/8/3p4/2PP4/8/PP2PPPP/RNBQKBNR b KQkq - 0 2',
-    description: 'A classic opening that fights for control of the center with pawns.'
-  }
-};
+// Games listed in the hint history below the board
+const SHOWN_HINTED_GAMES = 10;
 
-const ChessDojo: React.FC = () => {
-  const [game, setGame] = useState<Chess>(new Chess());
-  const [fen, setFen] = useState<string>('');
+interface ChessDojoProps {
+  // Position set up in the board editor; the student plays the side to move
+  startFen?: string;
+}
+
+const ChessDojo: React.FC<ChessDojoProps> = ({ startFen }) => {
+  const [game, setGame] = useState<Chess>(() => new Chess(startFen));
+  const [fen, setFen] = useState<string>(startFen ?? '');
   const [selectedOpening, setSelectedOpening] = useState<Opening | ''>('');
   const [openingDescription, setOpeningDescription] = useState<string>('');
-  const [suggestion, setSuggestion] = useState<string>('');
+  const [hint, setHint] = useState<Hint | null>(null);
+  // How many rungs of the hint ladder are showing for the current position
+  const [hintLevel, setHintLevel] = useState<number>(0);
+  const [hints, setHints] = useState<HintUsage[]>([]);
+  // Start time of the current game, which also identifies it in the hint history
+  const [gameStart, setGameStart] = useState<string>(() => new Date().toISOString());
+  const [hintHistory, setHintHistory] = useState<HintedGame[]>(loadHintHistory);
   const [isThinking, setIsThinking] = useState<boolean>(false);
-  const stockfishRef = useRef<Worker | null>(null);
-  const [playerIsWhite, setPlayerIsWhite] = useState<boolean>(true);
+  const [playerIsWhite, setPlayerIsWhite] = useState<boolean>(() => !startFen || new Chess(startFen).turn() === 'w');
+  const [botSettings, setBotSettings] = useState<BotSettings>(loadBotSettings);
+  const [drillMode, setDrillMode] = useState<boolean>(false);
+  const [reviewing, setReviewing] = useState<boolean>(false);
 
   useEffect(() => {
-    stockfishRef.current = new Worker('/stockfish.js');
-    stockfishRef.current.postMessage('uci');
-    stockfishRef.current.postMessage('isready');
-
-    return () => {
-      if (stockfishRef.current) {
-        stockfishRef.current.terminate();
-      }
-    };
-  }, []);
+    saveBotSettings(botSettings);
+  }, [botSettings]);
 
   useEffect(() => {
     if (selectedOpening) {
@@ -76,72 +56,80 @@ const ChessDojo: React.FC = () => {
       newGame.load(openings[selectedOpening].fen);
       setGame(newGame);
       setFen(newGame.fen());
+      setHints([]);
+      setGameStart(new Date().toISOString());
       setOpeningDescription(openings[selectedOpening].description);
     }
   }, [selectedOpening]);
 
 
   useEffect(() => {
+    setHint(null);
+    setHintLevel(0);
+    if (drillMode || reviewing || game.isGameOver()) return;
+
     const playerTurn = playerIsWhite ? 'w' : 'b';
-    if (game.turn() !== playerTurn && !game.isGameOver()) {
-      makeAIMove(game);
-    } else if (game.turn() === playerTurn && !game.isGameOver()) {
-      getSuggestion(game);
+    const currentFen = game.fen();
+    setIsThinking(true);
+
+    if (game.turn() !== playerTurn) {
+      const botMove = requestBotMove(currentFen, botSettings);
+      botMove.move
+        .then((move) => {
+          const newGame = cloneGame(game);
+          newGame.move(uciToMove(move));
+          setGame(newGame);
+          setFen(newGame.fen());
+          setIsThinking(false);
+        })
+        .catch((error) => {
+          if (!isCancelled(error)) console.error('Engine error:', error);
+        });
+
+      return () => botMove.cancel();
     }
-  }, [game, fen, playerIsWhite]);
 
-  const makeAIMove = (currentGame: Chess) => {
-    setIsThinking(true);
-    const depth = 15; // Adjust for difficulty
-    stockfishRef.current?.postMessage(`position fen ${currentGame.fen()}`);
-    stockfishRef.current?.postMessage(`go depth ${depth}`);
-
-    const handleMessage = (event: MessageEvent) => {
-      const message = event.data;
-      if (typeof message === 'string' && message.startsWith('bestmove')) {
-        const move = message.split(' ')[1];
-        const newGame = new Chess(currentGame.fen());
-        newGame.move(move);
-        setGame(newGame);
-        setFen(newGame.fen());
+    // The best move stays hidden until the student climbs the hint ladder
+    const evaluation = evaluatePosition(currentFen, 10);
+    evaluation.result
+      .then(({ bestMove, score }) => {
+        if (bestMove) setHint(createHint(currentFen, bestMove, score));
         setIsThinking(false);
-        stockfishRef.current?.removeEventListener('message', handleMessage);
-      }
-    };
+      })
+      .catch((error) => {
+        if (!isCancelled(error)) console.error('Engine error:', error);
+      });
 
-    stockfishRef.current?.addEventListener('message', handleMessage);
-  };
+    return () => evaluation.cancel();
+  }, [game, fen, playerIsWhite, botSettings, drillMode, reviewing]);
+
+  useEffect(() => {
+    const studentColor = playerIsWhite ? 'w' : 'b';
+    const moves = game.history({ verbose: true }).filter(move => move.color === studentColor).length;
+    if (moves === 0 && hints.length === 0) return;
+
+    setHintHistory(saveHintedGame({
+      id: gameStart,
+      date: gameStart,
+      studentColor,
+      opponent: `${botPersonalities[botSettings.personality].name} (Level ${botSettings.level})`,
+      moves,
+      hints,
+      result: gameResult(game),
+    }));
+  }, [game, fen, hints, gameStart, playerIsWhite, botSettings]);
 
   const handleColorSwitch = () => {
     setPlayerIsWhite(!playerIsWhite);
-    if (playerIsWhite && game.turn() === 'b') {
-      makeAIMove(game);
-    } else if (!playerIsWhite && game.turn() === 'w') {
-      makeAIMove(game);
-    }
   };
 
-
-  const getSuggestion = (currentGame: Chess) => {
-    setIsThinking(true);
-    const depth = 10; // Adjust for suggestion quality
-    stockfishRef.current?.postMessage(`position fen ${currentGame.fen()}`);
-    stockfishRef.current?.postMessage(`go depth ${depth}`);
-
-    const handleMessage = (event: MessageEvent) => {
-      const message = event.data;
-      if (typeof message === 'string' && message.startsWith('bestmove')) {
-        const move = message.split(' ')[1];
-        setSuggestion(`Suggested move: ${move}`);
-        setIsThinking(false);
-        stockfishRef.current?.removeEventListener('message', handleMessage);
-      }
-    };
-
-    stockfishRef.current?.addEventListener('message', handleMessage);
+  const showNextHint = () => {
+    if (!hint || hintLevel >= HINT_LEVELS.length) return;
+    setHints(recordHint(hints, game.history().length + 1, HINT_LEVELS[hintLevel]));
+    setHintLevel(hintLevel + 1);
   };
 
-  const onDrop = (sourceSquare: string, targetSquare: string): boolean => {
+  const onDrop = (sourceSquare: string, targetSquare: string, promotion?: string): boolean => {
     const playerTurn = playerIsWhite ? 'w' : 'b';
     if (game.turn() !== playerTurn) return false;
 
@@ -149,7 +137,7 @@ const ChessDojo: React.FC = () => {
       const move = game.move({
         from: sourceSquare,
         to: targetSquare,
-        promotion: 'q', // always promote to queen for simplicity
+        promotion,
       });
 
       if (move === null) return false; // illegal move
@@ -161,18 +149,45 @@ const ChessDojo: React.FC = () => {
   };
 
 
+  const pgnHeaders = () => {
+    const bot = `${botPersonalities[botSettings.personality].name} (Level ${botSettings.level})`;
+    return {
+      Event: 'ChessDojo training game',
+      White: playerIsWhite ? 'Student' : bot,
+      Black: playerIsWhite ? bot : 'Student',
+    };
+  };
+
+  const exportPgn = () => {
+    const record = createGameRecord(game, pgnHeaders());
+    downloadPgn(toPgn({ ...record, comments: hintComments(hints) }), 'chessdojo');
+  };
 
   const resetGame = () => {
     const newGame = new Chess();
     setGame(newGame);
     setFen(newGame.fen());
-    setSuggestion('');
+    setHints([]);
+    setGameStart(new Date().toISOString());
     setSelectedOpening('');
-    if (!playerIsWhite) {
-      makeAIMove(newGame);
-    }
+    setDrillMode(false);
   };
+  const hintSteps = hint ? [
+    'Move the highlighted piece.',
+    'It goes to one of the highlighted squares.',
+    describeTheme(hint),
+    `Best move: ${hint.san}`,
+  ].slice(0, hintLevel) : [];
+
+  const hintSquareStyles: Record<string, React.CSSProperties> = {};
+  if (hint && hintLevel >= 2) {
+    hint.area.forEach(square => { hintSquareStyles[square] = { backgroundColor: 'rgba(59, 130, 246, 0.3)' }; });
+  }
+  if (hint && hintLevel >= 1) hintSquareStyles[hint.from] = { backgroundColor: 'rgba(250, 204, 21, 0.6)' };
 
+  const studentColor = playerIsWhite ? 'w' : 'b';
+  const studentMoves = game.history({ verbose: true }).filter(move => move.color === studentColor).length;
+  const revealedMoves = hintCounts(hints).move;
 
   return (
     <div className="flex flex-col items-center p-4 w-1/2 mb-4">
@@ -186,6 +201,43 @@ const ChessDojo: React.FC = () => {
         />
         <span>{playerIsWhite ? 'White' : 'Black'}</span>
       </div>
+      <div className="flex items-center space-x-2 mb-2">
+        <span>Opponent:</span>
+        <Select
+          value={botSettings.personality}
+          onValueChange={(value) => {
+            const personality = botPersonalities[value as PersonalityId];
+            setBotSettings({ personality: personality.id, level: personality.defaultLevel });
+          }}
+        >
+          <SelectTrigger className="w-[160px]">
+            <SelectValue placeholder="Personality" />
+          </SelectTrigger>
+          <SelectContent className="bg-white p-4 mb-4">
+            {Object.values(botPersonalities).map((personality) => (
+              <SelectItem key={personality.id} value={personality.id}>
+                {personality.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select
+          value={String(botSettings.level)}
+          onValueChange={(value) => setBotSettings(prev => ({ ...prev, level: Number(value) }))}
+        >
+          <SelectTrigger className="w-[180px]">
+            <SelectValue placeholder="Level" />
+          </SelectTrigger>
+          <SelectContent className="bg-white p-4 mb-4">
+            {botLevels.map((level) => (
+              <SelectItem key={level.level} value={String(level.level)}>
+                {`Level ${level.level} - ${level.label}`}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <p className="mb-4 text-sm italic">{botPersonalities[botSettings.personality].description}</p>
       <Select
        value={selectedOpening}
        onValueChange={(value) => setSelectedOpening(value as Opening)}
@@ -206,11 +258,88 @@ const ChessDojo: React.FC = () => {
       {openingDescription && (
         <p className="mb-4 text-sm italic mt-4">{openingDescription}</p>
       )}
-      <Chessboard position={fen} onPieceDrop={onDrop} />
-      <p className="mt-4">{isThinking ? "Thinking..." : suggestion}</p>
-      <Button onClick={resetGame} className="mt-4">
-        Reset Game
-      </Button>
+      {selectedOpening && (
+        <div className="flex items-center mb-4">
+          <span className="mr-2">Drill opening:</span>
+          <Switch checked={drillMode} onCheckedChange={setDrillMode} />
+        </div>
+      )}
+      {drillMode && selectedOpening ? (
+        <OpeningTrainer opening={openings[selectedOpening]} />
+      ) : reviewing ? (
+        <GameReview
+          startFen={getStartFen(game)}
+          moves={game.history()}
+          headers={pgnHeaders()}
+          boardOrientation={playerIsWhite ? 'white' : 'black'}
+          onClose={() => setReviewing(false)}
+        />
+      ) : (
+        <>
+          <Chessboard
+            position={fen}
+            onPieceDrop={onDrop}
+            onPromotionPieceSelect={promotionHandler(onDrop)}
+            customSquareStyles={hintSquareStyles}
+            customArrows={hint && hintLevel >= HINT_LEVELS.length ? [[hint.from, hint.to, 'rgb(22, 163, 74)']] : []}
+          />
+          {isThinking ? (
+            <p className="mt-4">Thinking...</p>
+          ) : (
+            <ol className="mt-4 list-decimal list-inside">
+              {hintSteps.map((step) => <li key={step}>{step}</li>)}
+            </ol>
+          )}
+          <p className="mt-2 text-sm text-gray-600">
+            Hints this game: {hints.length} of {studentMoves} moves, {revealedMoves} revealed
+          </p>
+          <div className="flex space-x-4 mt-4">
+            <Button onClick={showNextHint} disabled={!hint || hintLevel >= HINT_LEVELS.length}>
+              {hintLevel < HINT_LEVELS.length ? `Hint: ${hintLabels[HINT_LEVELS[hintLevel]]}` : 'No more hints'}
+            </Button>
+            <Button onClick={resetGame}>
+              Reset Game
+            </Button>
+            <Button onClick={() => setReviewing(true)} disabled={game.history().length === 0}>
+              {game.isGameOver() ? 'Review Game' : 'Review So Far'}
+            </Button>
+            <Button onClick={exportPgn}>
+              Export PGN
+            </Button>
+          </div>
+          {hintHistory.length > 0 && (
+            <div className="mt-6 w-full">
+              <h2 className="text-lg font-semibold mb-2">Hint history</h2>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th>Date</th>
+                    <th>Opponent</th>
+                    <th>Result</th>
+                    <th>Moves</th>
+                    <th>Hints</th>
+                    <th>Moves revealed</th>
+                    <th>Played alone</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {hintHistory.slice(0, SHOWN_HINTED_GAMES).map((entry) => (
+                    <tr key={entry.id}>
+                      <td>{new Date(entry.date).toLocaleString()}</td>
+                      <td>{entry.opponent}</td>
+                      <td>{entry.result}</td>
+                      <td>{entry.moves}</td>
+                      <td>{entry.hints.length}</td>
+                      <td>{hintCounts(entry.hints).move}</td>
+                      <td>{independence(entry)}%</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
     </div>
   );
 };
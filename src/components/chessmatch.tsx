@@ -1,199 +1,254 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Chessboard } from 'react-chessboard';
-import { Chess } from 'chess.js';
+import { Chess, DEFAULT_POSITION, Square } from 'chess.js';
 import { Button } from './ui/button';
 import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from './ui/select';
+import { Opening, openings } from '../lib/openings';
+import { isCancelled, uciToMove } from '../lib/engine';
+import {
+  AnalysisLine, MoveEvaluation, PositionEval, analyzePosition, classificationStyles, evaluateMove, evaluatePosition,
+  formatScore
+} from '../lib/evaluation';
+import { addReviewCard } from '../lib/review';
+import { getStartFen, promotionHandler } from '../lib/game';
+import {
+  MoveTree, ROOT_ID, addMove, createMoveTree, deleteNode, gameAt, getLastMainlineId, getMainline, getPath, isVariation,
+  promoteVariation, setComment
+} from '../lib/movetree';
+import { PgnHeaders, createGameRecord, downloadPgn, parsePgn, toPgn } from '../lib/pgn';
+import AnalysisPanel from './analysispanel';
+import EvalBar from './evalbar';
+import GameReview from './gamereview';
+import MoveList from './movelist';
 
+// Arrows for the analysis lines' first moves, fading from the best line down
+const LINE_ARROW_OPACITIES = [0.8, 0.55, 0.4, 0.3, 0.2];
 
-type Opening = 'Italian Game' | 'French Defense' | 'Scandinavian Defense' | 
-               'King\'s Indian Attack' | 'London System' | 'Caro-Kann Defense' | 
-               'Ruy Lopez' | 'Sicilian Defense' | 'Queen\'s Gambit';
-
-const openings: Record<Opening, { fen: string, description: string }> = {
-  'Italian Game': {
-    fen: 'r1bqkbnr/pppp1ppp/2n5/4p3/2B1P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3',
-    description: 'A solid opening that develops pieces quickly and controls the center.'
-  },
-  'French Defense': {
-    fen: 'rnbqkbnr/pppp1ppp/4p3/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
-    description: 'A solid defense that can lead to closed positions, good for strategic play.'
-  },
-  'Scandinavian Defense': {
-    fen: 'rnbqkbnr/ppp1pppp/8/3p4/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
-    description: 'An aggressive defense that immediately challenges White\'s center control.'
-  },
-  'King\'s Indian Attack': {
-    fen: 'rnbqkbnr/pppppppp/8/8/8/5NP1/PPPPPP1P/RNBQKB1R b KQkq - 0 2',
-    description: 'A flexible opening system that can be used against various Black setups.'
-  },
-  'London System': {
-    fen: 'rnbqkbnr/pppppppp/8/8/3P4/2N5/PPP1PPPP/R1BQKBNR b KQkq - 1 2',
-    description: 'A solid, easy-to-learn opening that develops pieces to good squares.'
-  },
-  'Caro-Kann Defense': {
-    fen: 'rnbqkbnr/pp1ppppp/2p5/8/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
-    description: 'A solid defense that leads to a strong pawn structure for Black.'
-  },
-  'Ruy Lopez': {
-    fen: 'r1bqkbnr/pppp1ppp/2n5/1B2p3/4P3/5N2/PPPP1PPP/RNBQK2R b KQkq - 3 3',
-    description: 'One of the oldest and most classic openings, focusing on controlling the center.'
-  },
-  'Sicilian Defense': {
-    fen: 'rnbqkbnr/pp1ppppp/8/2p5/4P3/8/PPPP1PPP/RNBQKBNR w KQkq - 0 2',
-    description: 'An aggressive defense that leads to sharp, complex positions.'
-  },
-  'Queen\'s Gambit': {
-    fen: 'rnbqkbnr/ppp1pppp/8/3p4/2PP4/8/PP2PPPP/RNBQKBNR b KQkq - 0 2',
-    description: 'A classic opening that fights for control of the center with pawns.'
-  }
-};
+interface ChessMatchProps {
+  // Position set up in the board editor
+  startFen?: string;
+}
 
-const ChessDojo: React.FC = () => {
-  const [game, setGame] = useState<Chess>(new Chess());
-  const [fen, setFen] = useState<string>('');
+const ChessDojo: React.FC<ChessMatchProps> = ({ startFen = DEFAULT_POSITION }) => {
+  const [tree, setTree] = useState<MoveTree>(() => createMoveTree(startFen));
+  const [currentId, setCurrentId] = useState<string>(ROOT_ID);
   const [selectedOpening, setSelectedOpening] = useState<Opening | ''>('');
   const [openingDescription, setOpeningDescription] = useState<string>('');
-  const [suggestion, setSuggestion] = useState<{ text: string, move: string } | null>(null);
   const [isThinking, setIsThinking] = useState<boolean>(false);
-  const stockfishRef = useRef<Worker | null>(null);
-  const [currentTurn, setCurrentTurn] = useState<'w' | 'b'>('w');
-  const [boardOrientation, setBoardOrientation] = useState<'white' | 'black'>('white');
-  const [moveHistory, setMoveHistory] = useState<Chess[]>([new Chess()]);
-  const [moveQuality, setMoveQuality] = useState<'blunder' | 'bad' | 'good' | 'excellent' | null>(null);
-  const [previousEval, setPreviousEval] = useState<number | null>(null);
+  const [boardOrientation, setBoardOrientation] = useState<'white' | 'black'>(
+    () => new Chess(startFen).turn() === 'w' ? 'white' : 'black'
+  );
+  const [reviewing, setReviewing] = useState<boolean>(false);
+  const [pgnHeaders, setPgnHeaders] = useState<PgnHeaders>({});
+  const [showImport, setShowImport] = useState<boolean>(false);
+  const [pgnInput, setPgnInput] = useState<string>('');
+  const [importError, setImportError] = useState<string>('');
+  const [moveQuality, setMoveQuality] = useState<MoveEvaluation | null>(null);
+  const [evaluation, setEvaluation] = useState<PositionEval | null>(null);
+  const [analysisEnabled, setAnalysisEnabled] = useState<boolean>(true);
+  const [multiPv, setMultiPv] = useState<number>(3);
+  const [analysisLines, setAnalysisLines] = useState<AnalysisLine[]>([]);
+  // Engine results per FEN, so a move can be graded even if its search finished renders ago
+  const evaluationsRef = useRef<Record<string, PositionEval>>({});
+  // Only a move that was just played goes to the review queue, not one revisited while browsing
+  const playedNodeRef = useRef<string | null>(null);
 
-  useEffect(() => {
-    stockfishRef.current = new Worker('/stockfish.js');
-    stockfishRef.current.postMessage('uci');
-    stockfishRef.current.postMessage('isready');
+  const game = useMemo(() => gameAt(tree, currentId), [tree, currentId]);
+  // The line being viewed, up to its last move; this is what gets reviewed and exported
+  const lineGame = useMemo(() => gameAt(tree, getLastMainlineId(tree, currentId)), [tree, currentId]);
+  const currentNode = tree.nodes[currentId];
 
-    return () => {
-      if (stockfishRef.current) {
-        stockfishRef.current.terminate();
-      }
-    };
-  }, []);
+  const loadTree = (newTree: MoveTree, nodeId: string = ROOT_ID) => {
+    setTree(newTree);
+    setCurrentId(nodeId);
+    playedNodeRef.current = null;
+  };
 
   useEffect(() => {
     if (selectedOpening) {
-      const newGame = new Chess();
-      newGame.load(openings[selectedOpening].fen);
-      setGame(newGame);
-      setFen(newGame.fen());
+      loadTree(createMoveTree(openings[selectedOpening].fen));
       setOpeningDescription(openings[selectedOpening].description);
-      setCurrentTurn(newGame.turn());
     }
   }, [selectedOpening]);
 
   useEffect(() => {
-    if (!game.isGameOver()) {
-      getSuggestion(game);
-    }
-  }, [game, fen]);
-
-  const getMoveQuality = (currentEval: number, previousEval: number | null): 'blunder' | 'bad' | 'good' | 'excellent' => {
-    if (!previousEval) return 'good';
-    const evalDiff = currentEval - previousEval;
-    
-    if (evalDiff < -2) return 'blunder';
-    if (evalDiff < -1) return 'bad';
-    if (evalDiff > 1) return 'excellent';
-    return 'good';
-  };
+    if (reviewing) return;
 
-  const getSuggestion = (currentGame: Chess) => {
-    setIsThinking(true);
     const depth = 10;
-    stockfishRef.current?.postMessage(`position fen ${currentGame.fen()}`);
-    stockfishRef.current?.postMessage(`go depth ${depth}`);
-
-    const handleMessage = (event: MessageEvent) => {
-      const message = event.data;
-      if (typeof message === 'string') {
-        if (message.startsWith('info') && message.includes('score cp')) {
-          const evalMatch = message.match(/score cp (-?\d+)/);
-          if (evalMatch) {
-            const currentEval = parseInt(evalMatch[1]) / 100;
-            const quality = getMoveQuality(currentEval, previousEval);
-            setMoveQuality(quality);
-            setPreviousEval(currentEval);
-          }
-        } else if (message.startsWith('bestmove')) {
-          const move = message.split(' ')[1];
-          setSuggestion({
-            text: `Suggested move for ${currentGame.turn() === 'w' ? 'White' : 'Black'}: ${move}`,
-            move: move
+    const node = tree.nodes[currentId];
+    const currentGame = new Chess(node.fen);
+    const move = node.parentId !== null
+      ? { fenBefore: tree.nodes[node.parentId].fen, san: node.san, uci: node.uci }
+      : null;
+    const justPlayed = playedNodeRef.current === currentId;
+    let cancelSearch = () => {};
+    let cancelled = false;
+
+    const evaluate = async (positionFen: string) => {
+      const cached = evaluationsRef.current[positionFen];
+      if (cached) return cached;
+      const job = evaluatePosition(positionFen, depth);
+      cancelSearch = job.cancel;
+      const result = await job.result;
+      evaluationsRef.current[positionFen] = result;
+      return result;
+    };
+
+    setMoveQuality(null);
+    setAnalysisLines([]);
+    setIsThinking(true);
+    (async () => {
+      // The position before the move may not have finished analysing yet
+      const before = move ? await evaluate(move.fenBefore) : null;
+      if (cancelled) return;
+      const current = await evaluate(currentGame.fen());
+      if (cancelled) return;
+
+      setEvaluation(current);
+
+      if (move && before) {
+        const mover = new Chess(move.fenBefore).turn();
+        const result = evaluateMove(before, current, mover, move.uci);
+        setMoveQuality(result);
+
+        if (justPlayed && result.classification === 'blunder' && before.bestMove) {
+          const bestSan = new Chess(move.fenBefore).move(uciToMove(before.bestMove)).san;
+          addReviewCard({
+            fen: move.fenBefore,
+            answers: [bestSan],
+            source: 'blunder',
+            title: `Chess Match: ${move.san} was a blunder`,
+            explanation: `The engine preferred ${bestSan}.`,
           });
-          setIsThinking(false);
-          stockfishRef.current?.removeEventListener('message', handleMessage);
         }
       }
+      if (justPlayed) playedNodeRef.current = null;
+      setIsThinking(false);
+
+      // The engine runs one search at a time, so the open-ended analysis waits
+      // until the move has been graded
+      if (analysisEnabled) {
+        cancelSearch = analyzePosition(currentGame.fen(), multiPv, setAnalysisLines).cancel;
+      }
+    })().catch((error) => {
+      if (!isCancelled(error)) console.error('Engine error:', error);
+    });
+
+    return () => {
+      cancelled = true;
+      cancelSearch();
     };
+  }, [tree, currentId, reviewing, analysisEnabled, multiPv]);
 
-    stockfishRef.current?.addEventListener('message', handleMessage);
-  };
+  useEffect(() => {
+    if (reviewing) return;
 
-  const onDrop = (sourceSquare: string, targetSquare: string): boolean => {
-    try {
-      const move = game.move({
-        from: sourceSquare,
-        to: targetSquare,
-        promotion: 'q', // always promote to queen for simplicity
-      });
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement) return;
+      const node = tree.nodes[currentId];
+      let targetId: string | null | undefined;
+      if (e.key === 'ArrowLeft') targetId = node.parentId;
+      else if (e.key === 'ArrowRight') targetId = node.children[0];
+      else if (e.key === 'ArrowUp' || e.key === 'Home') targetId = ROOT_ID;
+      else if (e.key === 'ArrowDown' || e.key === 'End') targetId = getLastMainlineId(tree, currentId);
+      if (!targetId) return;
+      e.preventDefault();
+      setCurrentId(targetId);
+    };
+
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [tree, currentId, reviewing]);
 
-      if (move === null) return false; // illegal move
-      setFen(game.fen());
-      setCurrentTurn(game.turn());
-      setMoveHistory(prev => [...prev, new Chess(game.fen())]);
+  // Playing from an earlier position adds a variation instead of overwriting what follows
+  const playMove = (move: string | { from: string, to: string, promotion?: string }): boolean => {
+    try {
+      const result = addMove(tree, currentId, move);
+      playedNodeRef.current = result.nodeId;
+      setTree(result.tree);
+      setCurrentId(result.nodeId);
       return true;
     } catch (e) {
-      return false;
+      return false; // illegal move
     }
   };
 
+  const onDrop = (sourceSquare: string, targetSquare: string, promotion?: string): boolean =>
+    playMove({ from: sourceSquare, to: targetSquare, promotion });
+
   const resetGame = () => {
-    const newGame = new Chess();
-    setGame(newGame);
-    setFen(newGame.fen());
-    setSuggestion(null);
+    loadTree(createMoveTree(DEFAULT_POSITION));
     setSelectedOpening('');
-    setCurrentTurn('w');
-    setMoveHistory([new Chess()]);
-    setMoveQuality(null);
-    setPreviousEval(null);
+    setEvaluation(null);
+    setPgnHeaders({});
   };
 
-  const undoMove = () => {
-    if (moveHistory.length > 1) {
-      const previousPosition = moveHistory[moveHistory.length - 2];
-      setGame(previousPosition);
-      setFen(previousPosition.fen());
-      setCurrentTurn(previousPosition.turn());
-      setMoveHistory(prev => prev.slice(0, -1));
+  const exportPgn = () => {
+    const record = createGameRecord(lineGame, { Event: 'ChessDojo analysis board', ...pgnHeaders });
+    downloadPgn(toPgn(record), 'chessmatch');
+  };
+
+  const importPgn = (text: string) => {
+    try {
+      const record = parsePgn(text);
+      let importedTree = createMoveTree(record.startFen, record.moves);
+      const plies = [importedTree.nodes[ROOT_ID], ...getMainline(importedTree)];
+      Object.entries(record.comments ?? {}).forEach(([ply, comment]) => {
+        const node = plies[Number(ply)];
+        if (node) importedTree = setComment(importedTree, node.id, comment);
+      });
+
+      loadTree(importedTree, getLastMainlineId(importedTree));
+      setSelectedOpening('');
+      setOpeningDescription(record.headers.Opening ?? '');
+      setPgnHeaders(record.headers);
+      setImportError('');
+      setShowImport(false);
+      setPgnInput('');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      setImportError(`Could not import PGN: ${errorMessage}`);
     }
   };
 
+  const deleteMove = () => {
+    if (currentNode.parentId === null) return;
+    setCurrentId(currentNode.parentId);
+    setTree(deleteNode(tree, currentId));
+  };
+
   const switchColors = () => {
     setBoardOrientation(prev => prev === 'white' ? 'black' : 'white');
   };
 
+  // The live analysis once it has something, otherwise the grading search's best move.
+  // While that search runs, `evaluation` still belongs to the previous position.
+  const suggestedMove = analysisLines[0]?.pv[0] ?? (isThinking ? undefined : evaluation?.bestMove);
+
   const makeSuggestedMove = () => {
-    if (suggestion && suggestion.move) {
-      const move = game.move(suggestion.move);
-      if (move) {
-        setFen(game.fen());
-        setCurrentTurn(game.turn());
-        setMoveHistory(prev => [...prev, new Chess(game.fen())]);
-        setSuggestion(null); // Clear the suggestion after making the move
-      }
+    if (suggestedMove) {
+      playMove(uciToMove(suggestedMove));
     }
   };
 
+  const lineArrows = analysisEnabled
+    ? analysisLines.flatMap((line, index): [Square, Square, string][] => {
+      if (!line.pv[0]) return [];
+      const { from, to } = uciToMove(line.pv[0]);
+      return [[from as Square, to as Square, `rgba(0, 128, 0, ${LINE_ARROW_OPACITIES[index]})`]];
+    })
+    : [];
+
   return (
     <div className='flex flex-col items-center p-4 w-1/2 mb-4'>
       <h1 className='text-2xl font-bold mb-4'>Chess Match</h1>
+      {pgnHeaders.White && (
+        <p className='mb-2 font-semibold'>
+          {pgnHeaders.White} vs {pgnHeaders.Black}{pgnHeaders.Result && pgnHeaders.Result !== '*' ? ` (${pgnHeaders.Result})` : ''}
+        </p>
+      )}
       <p className='mb-4'>
-        Current Turn: {currentTurn === 'w' ? 'White' : 'Black'}
+        Current Turn: {game.turn() === 'w' ? 'White' : 'Black'}
       </p>
       <Select
         value={selectedOpening}
@@ -217,38 +272,129 @@ const ChessDojo: React.FC = () => {
       {openingDescription && (
         <p className='mb-4 text-sm italic mt-4'>{openingDescription}</p>
       )}
-      <Chessboard
-        position={fen}
-        onPieceDrop={onDrop}
-        boardOrientation={boardOrientation}
-      />
-      <p className='mt-4'>{isThinking ? 'Thinking...' : suggestion?.text}</p>
-      <div className='flex space-x-4 mt-4'>
-        <Button onClick={resetGame}>Reset Game</Button>
-        <Button onClick={switchColors}>Switch Colors</Button>
-        <Button
-          onClick={makeSuggestedMove}
-          disabled={!suggestion}
-        >
-          Make Suggested Move
-        </Button>
-        <Button 
-          onClick={undoMove} 
-          disabled={moveHistory.length <= 1}
-        >
-          Undo Move
-        </Button>
-      </div>
-      <div className='flex items-center space-x-4 mb-4'>
-        <p>Move Quality:</p>
-        <div
-          className={`w-6 h-6 rounded ${moveQuality === 'blunder' ? 'bg-red-500' :
-            moveQuality === 'bad' ? 'bg-yellow-500' :
-            moveQuality === 'good' ? 'bg-green-500' :
-            moveQuality === 'excellent' ? 'bg-blue-500' :
-            'bg-gray-200'}`}
+      {reviewing ? (
+        <GameReview
+          startFen={getStartFen(lineGame)}
+          moves={lineGame.history()}
+          headers={{ Event: 'ChessDojo analysis board', ...pgnHeaders }}
+          boardOrientation={boardOrientation}
+          onClose={() => setReviewing(false)}
         />
-      </div>
+      ) : (
+        <>
+          <div className='flex items-stretch space-x-2 w-full'>
+            <EvalBar score={analysisLines[0]?.score ?? evaluation?.score ?? null} boardOrientation={boardOrientation} />
+            <div className='flex-1'>
+              <Chessboard
+                position={game.fen()}
+                onPieceDrop={onDrop}
+                onPromotionPieceSelect={promotionHandler(onDrop)}
+                boardOrientation={boardOrientation}
+                customArrows={lineArrows}
+              />
+            </div>
+          </div>
+          <AnalysisPanel
+            fen={game.fen()}
+            lines={analysisLines}
+            enabled={analysisEnabled}
+            onEnabledChange={setAnalysisEnabled}
+            multiPv={multiPv}
+            onMultiPvChange={setMultiPv}
+            onPlay={(uci) => playMove(uciToMove(uci))}
+          />
+          <MoveList tree={tree} currentId={currentId} onSelect={setCurrentId} />
+          {currentNode.comment && <p className='mt-2 text-sm italic'>{currentNode.comment}</p>}
+          <div className='flex space-x-4 mt-4'>
+            <Button onClick={() => setCurrentId(ROOT_ID)} disabled={currentId === ROOT_ID}>{'|<'}</Button>
+            <Button
+              onClick={() => currentNode.parentId && setCurrentId(currentNode.parentId)}
+              disabled={currentId === ROOT_ID}
+            >
+              {'<'}
+            </Button>
+            <Button
+              onClick={() => setCurrentId(currentNode.children[0])}
+              disabled={currentNode.children.length === 0}
+            >
+              {'>'}
+            </Button>
+            <Button
+              onClick={() => setCurrentId(getLastMainlineId(tree, currentId))}
+              disabled={currentNode.children.length === 0}
+            >
+              {'>|'}
+            </Button>
+          </div>
+          {isThinking && <p className='mt-4'>Thinking...</p>}
+          <div className='flex space-x-4 mt-4'>
+            <Button onClick={resetGame}>Reset Game</Button>
+            <Button onClick={switchColors}>Switch Colors</Button>
+            <Button
+              onClick={makeSuggestedMove}
+              disabled={!suggestedMove || game.isGameOver()}
+            >
+              Make Suggested Move
+            </Button>
+            <Button onClick={deleteMove} disabled={currentId === ROOT_ID}>
+              Delete Move
+            </Button>
+            <Button
+              onClick={() => setReviewing(true)}
+              disabled={lineGame.history().length === 0}
+            >
+              Review Game
+            </Button>
+          </div>
+          <div className='flex space-x-4 mt-4'>
+            <Button onClick={exportPgn}>Export PGN</Button>
+            <Button onClick={() => setShowImport(prev => !prev)}>Import PGN</Button>
+            <Button
+              onClick={() => setTree(promoteVariation(tree, currentId))}
+              disabled={!getPath(tree, currentId).some(node => isVariation(tree, node.id))}
+            >
+              Promote Variation
+            </Button>
+          </div>
+          {showImport && (
+            <div className='flex flex-col items-center mt-4 w-full'>
+              <textarea
+                value={pgnInput}
+                placeholder='Paste PGN here'
+                rows={8}
+                className='w-full px-2 py-1 border rounded font-mono text-sm'
+                onChange={(e) => setPgnInput(e.target.value)}
+              />
+              <div className='flex space-x-4 mt-2'>
+                <input
+                  type='file'
+                  accept='.pgn,text/plain'
+                  onChange={(e) => {
+                    e.target.files?.[0]?.text().then(importPgn);
+                    e.target.value = '';
+                  }}
+                />
+                <Button onClick={() => importPgn(pgnInput)} disabled={!pgnInput.trim()}>Load</Button>
+              </div>
+            </div>
+          )}
+          {importError && (
+            <div className='mt-4 p-2 rounded bg-red-100 text-red-700'>{importError}</div>
+          )}
+          <div className='flex items-center space-x-4 mb-4'>
+            <p>Move Quality:</p>
+            <div
+              className={`w-6 h-6 rounded ${moveQuality ? classificationStyles[moveQuality.classification].color : 'bg-gray-200'}`}
+            />
+            {moveQuality && currentId !== ROOT_ID && (
+              <p>
+                {currentNode.san}: {classificationStyles[moveQuality.classification].label} (-{moveQuality.loss} cp)
+              </p>
+            )}
+            {evaluation && <p>Evaluation: {formatScore(evaluation.score)}</p>}
+          </div>
+        </>
+      )}
     </div>
   );
 };
@@ -1,8 +1,33 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useRef } from 'react';
 import { Chessboard } from 'react-chessboard';
 import { Chess } from 'chess.js';
-import { io, Socket } from 'socket.io-client';
+import { io } from 'socket.io-client';
 import { Button } from './ui/button';
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from './ui/select';
+import { Switch } from './ui/switch';
+import { cloneGame, positionError, promotionHandler } from '../lib/game';
+import { createGameRecord, downloadPgn, toPgn } from '../lib/pgn';
+import { ClockColor, ClockState, formatTimeControl, timeControlCategory, timeControlPresets } from '../lib/clock';
+import {
+  GameSocket, colorChoices, describeGameOver, describeMoveRejection, formatRating, formatRatingChange, getSessionToken,
+  inviteLink, loadActiveRoom, playPath, saveActiveRoom
+} from '../lib/multiplayer';
+import { Opening, openings } from '../lib/openings';
+import {
+  ArchivedGame, ChatMessage, GameOver, Profiles, PromotionPiece, RoomSnapshot, SeekColor, ServerToClientEvents
+} from '../lib/protocol';
+import ChatPanel from './chatpanel';
+import ChessClock from './chessclock';
+import GameReview from './gamereview';
+import Leaderboard from './leaderboard';
+import Lobby from './lobby';
+
+interface ChessMultiplayerProps {
+  // Room to join on load, from an invite link
+  inviteRoomId?: string | null;
+  // Position set up in the board editor, offered as the new room's start position
+  startFen?: string;
+}
 
 interface GameState {
   game: Chess;
@@ -12,7 +37,39 @@ interface GameState {
   opponent: string | null;
 }
 
-const ChessMultiplayer: React.FC = () => {
+// Rebuilds the game from the server's move list so SAN history survives joins
+const gameFromMoves = (startFen: string, fen: string, moves: string[] = []): Chess => {
+  const game = new Chess(startFen);
+  try {
+    moves.forEach(san => game.move(san));
+  } catch (e) {
+    return new Chess(fen);
+  }
+  return game.fen() === fen ? game : new Chess(fen);
+};
+
+// Our copy after the server's move number `ply`, or null if we are out of step.
+// Our own moves are usually on the board already, played optimistically.
+const applyServerMove = (current: Chess, ply: number, fen: string, san: string): Chess | null => {
+  const played = current.history().length;
+  if (played === ply + 1 && current.fen() === fen) return current;
+  if (played !== ply) return null;
+  const next = cloneGame(current);
+  try {
+    next.move(san);
+  } catch (e) {
+    return null;
+  }
+  return next.fen() === fen ? next : null;
+};
+
+// How long a move may go unacknowledged before we ask the server for the real position
+const MOVE_ACK_TIMEOUT_MS = 5000;
+
+// Start positions offered when creating a room, besides the standard one and a custom FEN
+const openingNames = Object.keys(openings) as Opening[];
+
+const ChessMultiplayer: React.FC<ChessMultiplayerProps> = ({ inviteRoomId = null, startFen: setupFen }) => {
   const [gameState, setGameState] = useState<GameState>({    
     game: new Chess(),
     roomId: null,
@@ -23,11 +80,82 @@ const ChessMultiplayer: React.FC = () => {
   const [fen, setFen] = useState<string>('rnbqkbnr/pppppppp/8/8/8/8/PPPPPPPP/RNBQKBNR w KQkq - 0 1');
   const [boardOrientation, setBoardOrientation] = useState<'white' | 'black'>('white');
   const [boardDimensions, setBoardDimensions] = useState({ width: 600, height: 600 });
-  const socketRef = useRef<Socket | null>(null);
+  const socketRef = useRef<GameSocket | null>(null);
+  // Mirrors socketRef for children that need to re-render when the socket changes
+  const [socket, setSocket] = useState<GameSocket | null>(null);
   const [statusMessage, setStatusMessage] = useState<string>('');
   const [boardStatus, setBoardStatus] = useState<string>('Initializing board...');
   const [roomIdInput, setRoomIdInput] = useState<string>('');
   const [isLoading, setIsLoading] = useState<boolean>(true);
+  const [timeControlName, setTimeControlName] = useState<string>(timeControlPresets[0].name);
+  const [createColor, setCreateColor] = useState<SeekColor>('random');
+  // 'standard', 'custom' or an opening name
+  const [startPosition, setStartPosition] = useState<string>(setupFen ? 'custom' : 'standard');
+  const [customFen, setCustomFen] = useState<string>(setupFen ?? '');
+  const [createPrivate, setCreatePrivate] = useState<boolean>(false);
+  // When the snapshot arrived, so the running clock can count down locally
+  const [clock, setClock] = useState<{ state: ClockState, receivedAt: number } | null>(null);
+  const [gameOver, setGameOver] = useState<GameOver | null>(null);
+  const [drawOffer, setDrawOffer] = useState<ClockColor | null>(null);
+  const [takebackOffer, setTakebackOffer] = useState<ClockColor | null>(null);
+  const [rematchOffer, setRematchOffer] = useState<ClockColor | null>(null);
+  const [reconnecting, setReconnecting] = useState<ClockColor[]>([]);
+  const [playerId, setPlayerId] = useState<string | null>(null);
+  const [recentGames, setRecentGames] = useState<ArchivedGame[]>([]);
+  const [reviewGame, setReviewGame] = useState<ArchivedGame | null>(null);
+  // Names and ratings of every player we have seen, by player id
+  const [profiles, setProfiles] = useState<Profiles>({});
+  const [nameInput, setNameInput] = useState<string>('');
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  // Latest room and position, for socket handlers and timers that outlive a render
+  const roomIdRef = useRef<string | null>(null);
+  const gameRef = useRef<Chess>(gameState.game);
+  // Our move awaiting the server's acknowledgement
+  const pendingMoveRef = useRef<{ ply: number, timer: ReturnType<typeof setTimeout> } | null>(null);
+  // Used up by the first connect; later reconnects go back to the active room
+  const inviteRoomRef = useRef<string | null>(inviteRoomId);
+
+  const showGame = useCallback((game: Chess) => {
+    gameRef.current = game;
+    setGameState(prev => ({ ...prev, game }));
+    setFen(game.fen());
+  }, []);
+
+  const updateClock = useCallback((state?: ClockState | null) => {
+    setClock(state ? { state, receivedAt: Date.now() } : null);
+  }, []);
+
+  const mergeProfiles = useCallback((updates: Profiles) => {
+    setProfiles(prev => ({ ...prev, ...updates }));
+  }, []);
+
+  const settlePendingMove = useCallback(() => {
+    clearTimeout(pendingMoveRef.current?.timer);
+    pendingMoveRef.current = null;
+  }, []);
+
+  // The server's snapshot is authoritative: it replaces our position, including
+  // any move of ours it has not acknowledged
+  const applySnapshot = useCallback((snapshot: RoomSnapshot) => {
+    settlePendingMove();
+    mergeProfiles(snapshot.profiles);
+    roomIdRef.current = snapshot.roomId;
+    setGameState(prev => ({ ...prev, roomId: snapshot.roomId }));
+    showGame(gameFromMoves(snapshot.startFen, snapshot.fen, snapshot.moves));
+    updateClock(snapshot.clock);
+    setGameOver(snapshot.result);
+    setDrawOffer(snapshot.drawOffer);
+    setTakebackOffer(snapshot.takebackOffer);
+    setRematchOffer(snapshot.rematchOffer);
+    setReconnecting(snapshot.reconnecting);
+    if (snapshot.chat) setChat(snapshot.chat);
+  }, [mergeProfiles, settlePendingMove, showGame, updateClock]);
+
+  const requestResync = useCallback((roomId: string) => {
+    socketRef.current?.emit('resync', { roomId }, (snapshot) => {
+      if (snapshot) applySnapshot(snapshot);
+    });
+  }, [applySnapshot]);
 
   useEffect(() => {
     const updateDimensions = () => {
@@ -38,51 +166,77 @@ const ChessMultiplayer: React.FC = () => {
     updateDimensions();
     window.addEventListener('resize', updateDimensions);
 
-    const socket = io('http://localhost:3001');
+    const socket: GameSocket = io('http://localhost:3001', { auth: { token: getSessionToken() } });
     socketRef.current = socket;
+    setSocket(socket);
+    // Our public id, assigned by the server for this session
+    let myPlayerId: string | null = null;
 
     const initialGame = new Chess();
     setFen(initialGame.fen());
     setIsLoading(false);
 
-    const handlers = {
-      roomCreated: (roomId: string) => {
-        const newGame = new Chess();
-        setGameState(prev => ({ ...prev, roomId, game: newGame }));
-        setFen(newGame.fen());
-        setStatusMessage('Room created successfully!');
+    const loadRecentGames = () => {
+      socket.emit('listGames', { mine: true }, ({ games, profiles }) => {
+        setRecentGames(games);
+        mergeProfiles(profiles);
+      });
+    };
+
+    const onConnect = () => {
+      // Covers both a page refresh and socket.io's automatic reconnects
+      const activeRoom = inviteRoomRef.current ?? loadActiveRoom();
+      inviteRoomRef.current = null;
+      if (activeRoom) socket.emit('joinRoom', activeRoom);
+      loadRecentGames();
+    };
+
+    const onDisconnect = () => {
+      setStatusMessage('Connection lost. Reconnecting...');
+    };
+
+    // Payload types come from the shared protocol
+    const handlers: Partial<ServerToClientEvents> = {
+      session: ({ playerId, profile }) => {
+        myPlayerId = playerId;
+        setPlayerId(playerId);
+        mergeProfiles({ [playerId]: profile });
+      },
+
+      profile: (profile) => {
+        mergeProfiles({ [profile.id]: profile });
+        setStatusMessage(`Display name set to ${profile.name}`);
+      },
+
+      roomCreated: ({ color, ...snapshot }) => {
+        applySnapshot(snapshot);
+        setGameState(prev => ({ ...prev, playerColor: color, isSpectator: false, opponent: null }));
+        saveActiveRoom(snapshot.roomId);
+        setBoardOrientation(color);
+        setStatusMessage(`Room created, you play ${color}. Share the invite link with your opponent.`);
         setBoardStatus('Board created and ready');
       },
 
-      playerJoined: ({ color, playerId, fen }: { color: 'white' | 'black', playerId: string, fen?: string }) => {
+      playerJoined: ({ color, playerId, opponent, reconnected, ...snapshot }) => {
         try {
-          const newGame = new Chess();
-          if (fen) {
-            newGame.load(fen);
-            setBoardStatus('Board loaded with current game state');
-          }
-
-          const updates = {
-            game: newGame,
-            playerColor: playerId === socket.id ? color : undefined,
-            opponent: playerId !== socket.id ? playerId : undefined
-          };
+          applySnapshot(snapshot);
+          setBoardStatus('Board loaded with current game state');
 
+          const isMe = playerId === myPlayerId;
           setGameState(prev => ({
             ...prev,
-            ...updates,
-            playerColor: updates.playerColor ?? prev.playerColor,
-            opponent: updates.opponent ?? prev.opponent
+            playerColor: isMe ? color : prev.playerColor,
+            opponent: isMe ? opponent ?? prev.opponent : playerId
           }));
 
-          if (playerId === socket.id) {
+          if (isMe) {
+            // A finished game is not worth coming back to after a refresh
+            saveActiveRoom(snapshot.result ? null : snapshot.roomId);
             setBoardOrientation(color);
-            setStatusMessage(`Successfully joined the room as ${color}!`);
+            setStatusMessage(reconnected ? `Reconnected as ${color}` : `Successfully joined the room as ${color}!`);
           } else {
             setStatusMessage('Opponent has joined the game!');
           }
-
-          setFen(newGame.fen());
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
           setBoardStatus(`Error loading board: ${errorMessage}`);
@@ -90,19 +244,31 @@ const ChessMultiplayer: React.FC = () => {
         }
       },
 
-      moveMade: ({ fen }: { fen: string }) => {
-        try {
-          const newGame = new Chess(fen);
-          setGameState(prev => ({ ...prev, game: newGame }));
-          setFen(fen);
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          setStatusMessage(`Error updating move: ${errorMessage}`);
-          console.error('Error updating move:', error);
+      moveMade: ({ roomId, ply, fen, san, clock }) => {
+        // Sockets stay subscribed to rooms they have left
+        if (roomId !== roomIdRef.current) return;
+        if (pendingMoveRef.current && ply >= pendingMoveRef.current.ply) settlePendingMove();
+        updateClock(clock);
+        // The server drops takeback requests once anyone moves
+        setTakebackOffer(null);
+
+        const next = applyServerMove(gameRef.current, ply, fen, san);
+        if (next) {
+          showGame(next);
+        } else {
+          setStatusMessage('Board out of sync, reloading the position...');
+          requestResync(roomId);
         }
       },
 
-      playerLeft: (playerId: string) => {
+      moveRejected: ({ roomId, reason, snapshot }) => {
+        if (roomId !== roomIdRef.current) return;
+        applySnapshot(snapshot);
+        setStatusMessage(`Move rejected: ${describeMoveRejection(reason)}`);
+      },
+
+      playerLeft: (playerId, color) => {
+        setReconnecting(prev => prev.filter(c => c !== color));
         setGameState(prev => {
           if (prev.opponent === playerId) {
             return { ...prev, opponent: null };
@@ -112,20 +278,93 @@ const ChessMultiplayer: React.FC = () => {
         setStatusMessage('Opponent has left the game');
       },
 
-      error: (message: string) => {
+      playerDisconnected: ({ color }) => {
+        setReconnecting(prev => prev.includes(color) ? prev : [...prev, color]);
+      },
+
+      playerReconnected: ({ color }) => {
+        setReconnecting(prev => prev.filter(c => c !== color));
+      },
+
+      error: ({ code, message, event }) => {
         setStatusMessage(`Error: ${message}`);
-        setGameState(prev => ({ ...prev, roomId: null }));
+        // The room is gone, so stop trying to rejoin it. Other errors, such as a
+        // rejected chat message, leave us where we are.
+        if (code === 'ROOM_NOT_FOUND') {
+          saveActiveRoom(null);
+          roomIdRef.current = null;
+          setGameState(prev => ({ ...prev, roomId: null }));
+        } else if (event === 'move' && roomIdRef.current) {
+          // Our optimistic move did not reach the game
+          requestResync(roomIdRef.current);
+        }
+      },
+
+      gameOver: ({ clock, profiles, ...result }) => {
+        saveActiveRoom(null);
+        setGameOver(result);
+        mergeProfiles(profiles);
+        setDrawOffer(null);
+        setTakebackOffer(null);
+        updateClock(clock);
+        loadRecentGames();
       },
 
-      joinedAsSpectator: ({ fen }: { fen: string }) => {
+      chat: (message) => {
+        setChat(prev => [...prev, message]);
+      },
+
+      drawOffered: ({ by }) => {
+        setDrawOffer(by);
+      },
+
+      drawDeclined: () => {
+        setDrawOffer(null);
+        setStatusMessage('Draw offer declined');
+      },
+
+      takebackRequested: ({ by }) => {
+        setTakebackOffer(by);
+      },
+
+      takebackDeclined: () => {
+        setTakebackOffer(null);
+        setStatusMessage('Takeback declined');
+      },
+
+      takebackAccepted: ({ snapshot }) => {
+        if (snapshot.roomId !== roomIdRef.current) return;
+        applySnapshot(snapshot);
+        setStatusMessage('Move taken back');
+      },
+
+      rematchOffered: ({ by }) => {
+        setRematchOffer(by);
+      },
+
+      rematchDeclined: () => {
+        setRematchOffer(null);
+        setStatusMessage('Rematch declined');
+      },
+
+      rematchStarted: ({ players, ...snapshot }) => {
+        if (snapshot.roomId !== roomIdRef.current) return;
+        applySnapshot(snapshot);
+        const color = players.white === myPlayerId ? 'white' : players.black === myPlayerId ? 'black' : null;
+        if (color) {
+          saveActiveRoom(snapshot.roomId);
+          setGameState(prev => ({ ...prev, playerColor: color }));
+          setBoardOrientation(color);
+          setStatusMessage(`Rematch started, you play ${color}`);
+        } else {
+          setStatusMessage('Rematch started');
+        }
+      },
+
+      joinedAsSpectator: (snapshot) => {
         try {
-          const newGame = new Chess(fen);
-          setGameState(prev => ({ 
-            ...prev, 
-            isSpectator: true,
-            game: newGame 
-          }));
-          setFen(fen);
+          applySnapshot(snapshot);
+          setGameState(prev => ({ ...prev, isSpectator: true }));
           setStatusMessage('Joined as a spectator');
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Unknown error';
@@ -136,39 +375,81 @@ const ChessMultiplayer: React.FC = () => {
     };
 
     // Register handlers
-    Object.entries(handlers).forEach(([event, handler]) => {
-      socket.on(event, handler);
-    });
+    socket.on('connect', onConnect);
+    socket.on('disconnect', onDisconnect);
+    const events = Object.keys(handlers) as (keyof ServerToClientEvents)[];
+    // Each handler goes back to the event it was declared for in `handlers`
+    const register = <E extends keyof ServerToClientEvents>(event: E, handler?: ServerToClientEvents[E]) => {
+      if (handler) socket.on<keyof ServerToClientEvents>(event, handler);
+    };
+    const unregister = <E extends keyof ServerToClientEvents>(event: E, handler?: ServerToClientEvents[E]) => {
+      if (handler) socket.off<keyof ServerToClientEvents>(event, handler);
+    };
+    events.forEach(event => register(event, handlers[event]));
 
     return () => {
       // Clean up handlers
-      Object.entries(handlers).forEach(([event, handler]) => {
-        socket.off(event, handler);
-      });
+      socket.off('connect', onConnect);
+      socket.off('disconnect', onDisconnect);
+      events.forEach(event => unregister(event, handlers[event]));
       window.removeEventListener('resize', updateDimensions);
       socket.disconnect();
     };
-  }, []); // Empty dependency array to run only once on mount
+  }, [applySnapshot, mergeProfiles, requestResync, settlePendingMove, showGame, updateClock]); // All stable, so this runs once on mount
+
+  const startFen = startPosition === 'custom' ? customFen.trim()
+    : startPosition === 'standard' ? undefined : openings[startPosition as Opening].fen;
+  const startFenError = startPosition === 'custom' ? positionError(customFen.trim()) : null;
 
   const createRoom = () => {
-    socketRef.current?.emit('createRoom');
+    const preset = timeControlPresets.find(option => option.name === timeControlName);
+    socketRef.current?.emit('createRoom', {
+      timeControl: preset?.timeControl ?? null,
+      color: createColor,
+      startFen,
+      private: createPrivate
+    });
   };
 
-  const joinRoom = (roomId: string) => {
-    socketRef.current?.emit('joinRoom', roomId);
+  // Keeps the address bar on the room's invite link while we are in it
+  useEffect(() => {
+    if (!gameState.roomId) return;
+    window.history.replaceState(null, '', playPath(gameState.roomId));
+    return () => window.history.replaceState(null, '', '/');
+  }, [gameState.roomId]);
+
+  const copyInviteLink = () => {
+    if (!gameState.roomId) return;
+    navigator.clipboard.writeText(inviteLink(gameState.roomId)).then(
+      () => setStatusMessage('Invite link copied'),
+      () => setStatusMessage('Could not copy the invite link')
+    );
   };
 
-  const onDrop = (sourceSquare: string, targetSquare: string): boolean => {
-    if (!gameState.roomId || !gameState.playerColor || gameState.isSpectator) {
+  // Stable so the lobby does not re-subscribe on every render
+  const joinRoom = useCallback((roomId: string) => {
+    socketRef.current?.emit('joinRoom', roomId);
+  }, []);
+
+  const { roomId } = gameState;
+
+  const onDrop = (sourceSquare: string, targetSquare: string, promotion?: string): boolean => {
+    if (!roomId || !gameState.playerColor || gameState.isSpectator || gameOver) {
       setStatusMessage('You cannot make moves at this time');
       return false;
     }
+    if (pendingMoveRef.current) {
+      setStatusMessage('Waiting for the server to confirm your last move');
+      return false;
+    }
 
     try {
-      const move = gameState.game.move({
+      const ply = gameRef.current.history().length;
+      const next = cloneGame(gameRef.current);
+      const move = next.move({
         from: sourceSquare,
         to: targetSquare,
-        promotion: 'q'
+        promotion
       });
 
       if (move === null) {
@@ -176,11 +457,16 @@ const ChessMultiplayer: React.FC = () => {
         return false;
       }
 
+      // Shown right away, and rolled back if the server rejects it or never answers
+      showGame(next);
       socketRef.current?.emit('move', {
+        roomId,
+        ply,
         from: sourceSquare,
         to: targetSquare,
-        roomId: gameState.roomId
+        promotion: move.promotion as PromotionPiece | undefined
       });
+      pendingMoveRef.current = { ply, timer: setTimeout(() => requestResync(roomId), MOVE_ACK_TIMEOUT_MS) };
 
       return true;
     } catch (error) {
@@ -191,6 +477,85 @@ const ChessMultiplayer: React.FC = () => {
     }
   };
 
+  const resign = () => {
+    if (roomId && window.confirm('Are you sure you want to resign?')) {
+      socketRef.current?.emit('resign', { roomId });
+    }
+  };
+
+  const offerDraw = () => {
+    if (roomId) socketRef.current?.emit('offerDraw', { roomId });
+  };
+
+  const answerDraw = (accept: boolean) => {
+    if (roomId) socketRef.current?.emit(accept ? 'acceptDraw' : 'declineDraw', { roomId });
+  };
+
+  const requestTakeback = () => {
+    if (roomId) socketRef.current?.emit('requestTakeback', { roomId });
+  };
+
+  const answerTakeback = (accept: boolean) => {
+    if (roomId) socketRef.current?.emit(accept ? 'acceptTakeback' : 'declineTakeback', { roomId });
+  };
+
+  const offerRematch = () => {
+    if (roomId) socketRef.current?.emit('offerRematch', { roomId });
+  };
+
+  const answerRematch = (accept: boolean) => {
+    if (roomId) socketRef.current?.emit(accept ? 'acceptRematch' : 'declineRematch', { roomId });
+  };
+
+  // Back to the lobby; the server frees our seat, which forfeits a game under way
+  const leaveRoom = () => {
+    if (!roomId) return;
+    const playing = gameState.playerColor && !gameState.isSpectator && !gameOver && gameState.game.history().length > 0;
+    if (playing && !window.confirm('Leaving forfeits the game. Leave anyway?')) return;
+    socketRef.current?.emit('leaveRoom', { roomId });
+    saveActiveRoom(null);
+    settlePendingMove();
+    roomIdRef.current = null;
+    setGameState(prev => ({ ...prev, roomId: null, playerColor: null, isSpectator: false, opponent: null }));
+    showGame(new Chess());
+    updateClock(null);
+    setGameOver(null);
+    setDrawOffer(null);
+    setTakebackOffer(null);
+    setRematchOffer(null);
+    setReconnecting([]);
+    setChat([]);
+    setBoardOrientation('white');
+    setStatusMessage('You left the room');
+  };
+
+  const sendChat = (text: string) => {
+    if (roomId) socketRef.current?.emit('chatMessage', { roomId, text });
+  };
+
+  const playerName = useCallback(
+    (id?: string) => !id ? '?' : id === playerId ? 'You' : profiles[id]?.name ?? `Player ${id.slice(0, 6)}`,
+    [playerId, profiles]
+  );
+
+  // Ratings shown in a room are the ones for its time control
+  const roomCategory = clock ? timeControlCategory(clock.state.timeControl) : null;
+  const ratingLabel = (id: string) => roomCategory ? ` (${formatRating(profiles[id]?.ratings[roomCategory])})` : '';
+
+  const saveName = () => {
+    if (nameInput.trim()) socketRef.current?.emit('setName', nameInput.trim());
+    setNameInput('');
+  };
+
+  const exportPgn = () => {
+    const record = createGameRecord(gameState.game, {
+      Event: 'ChessDojo multiplayer game',
+      Round: gameState.roomId ?? '-',
+      ...(gameOver ? { Result: gameOver.result, Termination: describeGameOver(gameOver) } : {}),
+    });
+    downloadPgn(toPgn(record), `chessdojo-${gameState.roomId ?? 'game'}`);
+  };
+
   return (
     <div className='flex flex-col items-center p-4 w-full md:w-1/2 mb-4'>
       <h1 className='text-2xl font-bold mb-4'>Chess Multiplayer</h1>
@@ -205,9 +570,91 @@ const ChessMultiplayer: React.FC = () => {
         </div>
       )}
       
-      {!gameState.roomId ? (
+      {reviewGame ? (
+        <GameReview
+          startFen={reviewGame.startFen}
+          moves={reviewGame.moves}
+          headers={{
+            Event: 'ChessDojo multiplayer game',
+            Round: reviewGame.roomId,
+            White: playerName(reviewGame.players.white),
+            Black: playerName(reviewGame.players.black),
+            Result: reviewGame.result,
+            Termination: describeGameOver(reviewGame),
+          }}
+          boardOrientation={reviewGame.players.black === playerId ? 'black' : 'white'}
+          onClose={() => setReviewGame(null)}
+        />
+      ) : !gameState.roomId ? (
         <div className='flex flex-col space-y-4'>
-          <Button onClick={createRoom}>Create New Game</Button>
+          {playerId && (
+            <div className='flex items-center space-x-2'>
+              <span>Playing as <span className='font-semibold'>{profiles[playerId]?.name ?? 'Guest'}</span></span>
+              <input
+                type='text'
+                value={nameInput}
+                placeholder='Display name'
+                maxLength={20}
+                className='px-2 py-1 border rounded'
+                onChange={(e) => setNameInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && saveName()}
+              />
+              <Button size='sm' onClick={saveName} disabled={!nameInput.trim()}>Set Name</Button>
+            </div>
+          )}
+          <div className='flex space-x-2'>
+            <Select value={timeControlName} onValueChange={setTimeControlName}>
+              <SelectTrigger className='w-[140px]'>
+                <SelectValue placeholder='Time control' />
+              </SelectTrigger>
+              <SelectContent className='bg-white'>
+                {timeControlPresets.map(preset => (
+                  <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={createColor} onValueChange={(value) => setCreateColor(value as SeekColor)}>
+              <SelectTrigger className='w-[110px]'>
+                <SelectValue placeholder='Color' />
+              </SelectTrigger>
+              <SelectContent className='bg-white'>
+                {colorChoices.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={startPosition} onValueChange={setStartPosition}>
+              <SelectTrigger className='w-[180px]'>
+                <SelectValue placeholder='Start position' />
+              </SelectTrigger>
+              <SelectContent className='bg-white'>
+                <SelectItem value='standard'>Standard position</SelectItem>
+                {openingNames.map(name => (
+                  <SelectItem key={name} value={name}>{name}</SelectItem>
+                ))}
+                <SelectItem value='custom'>Custom FEN</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {startPosition === 'custom' && (
+            <div>
+              <input
+                type='text'
+                value={customFen}
+                placeholder='FEN'
+                className='px-2 py-1 border rounded w-full font-mono text-sm'
+                onChange={(e) => setCustomFen(e.target.value)}
+              />
+              {customFen.trim() && startFenError && <p className='text-sm text-red-600 mt-1'>{startFenError}</p>}
+            </div>
+          )}
+          <div className='flex items-center space-x-2'>
+            <Switch checked={createPrivate} onCheckedChange={setCreatePrivate} />
+            <span>{createPrivate ? 'Private, invite link only' : 'Public, listed in the lobby'}</span>
+            <Button onClick={createRoom} disabled={startPosition === 'custom' && Boolean(startFenError)}>
+              Create New Game
+            </Button>
+          </div>
           <div className='flex space-x-2'>
             <input
               type='text'
@@ -235,10 +682,75 @@ const ChessMultiplayer: React.FC = () => {
               Join Game
             </Button>
           </div>
+          <Lobby socket={socket} playerId={playerId} playerName={playerName} onJoinRoom={joinRoom} />
+          {recentGames.length > 0 && (
+            <div>
+              <p className='font-semibold mb-2'>Recent Games</p>
+              <ul className='text-sm space-y-1'>
+                {recentGames.map(game => (
+                  <li key={game.id} className='flex items-center space-x-2'>
+                    <span>{new Date(game.endedAt).toLocaleDateString()}</span>
+                    <span>{playerName(game.players.white)} vs {playerName(game.players.black)}</span>
+                    <span className='font-semibold'>{game.result}</span>
+                    <span className='text-gray-500'>{describeGameOver(game)}</span>
+                    <Button size='sm' onClick={() => setReviewGame(game)}>Review</Button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+          <Leaderboard socket={socket} playerId={playerId} />
         </div>
       ) : (
         <div className='flex flex-col items-center'>
-          <p className='mb-4'>Room ID: {gameState.roomId}</p>
+          {gameOver && (
+            <div className='mb-4 p-4 rounded bg-gray-800 text-white text-center'>
+              <p className='text-2xl font-bold'>{gameOver.result.replace('1/2', '½')}</p>
+              <p>{describeGameOver(gameOver)}</p>
+              {gameOver.ratingChanges && (
+                <p className='text-sm mt-1'>
+                  {gameState.playerColor
+                    ? `Your ${gameOver.ratingChanges.category} rating: ${formatRatingChange(gameOver.ratingChanges[gameState.playerColor])}`
+                    : `White ${formatRatingChange(gameOver.ratingChanges.white)}, Black ${formatRatingChange(gameOver.ratingChanges.black)}`}
+                </p>
+              )}
+              <div className='flex justify-center space-x-2 mt-2'>
+                {recentGames[0]?.roomId === gameState.roomId && (
+                  <Button size='sm' onClick={() => setReviewGame(recentGames[0])}>Review Game</Button>
+                )}
+                {gameState.playerColor && !gameState.isSpectator && gameState.opponent && (
+                  rematchOffer && rematchOffer !== gameState.playerColor ? (
+                    <>
+                      <span className='self-center'>Your opponent wants a rematch</span>
+                      <Button size='sm' onClick={() => answerRematch(true)}>Accept</Button>
+                      <Button size='sm' onClick={() => answerRematch(false)}>Decline</Button>
+                    </>
+                  ) : (
+                    <Button size='sm' onClick={offerRematch} disabled={rematchOffer === gameState.playerColor}>
+                      {rematchOffer === gameState.playerColor ? 'Rematch Offered' : 'Rematch'}
+                    </Button>
+                  )
+                )}
+              </div>
+            </div>
+          )}
+          <p className='mb-4'>
+            Room ID: {gameState.roomId}
+            {clock && ` - ${formatTimeControl(clock.state.timeControl)}`}
+          </p>
+          {gameState.playerColor && !gameState.opponent && !gameOver && (
+            <div className='mb-4 flex items-center space-x-2'>
+              <span>Invite link:</span>
+              <input
+                type='text'
+                readOnly
+                value={inviteLink(gameState.roomId)}
+                className='px-2 py-1 border rounded w-72 text-sm'
+                onFocus={(e) => e.target.select()}
+              />
+              <Button size='sm' onClick={copyInviteLink}>Copy</Button>
+            </div>
+          )}
           <p className='mb-4'>
             {gameState.isSpectator
               ? 'Spectating'
@@ -246,44 +758,106 @@ const ChessMultiplayer: React.FC = () => {
               ? `Playing as ${gameState.playerColor}`
               : 'Waiting for opponent'}
           </p>
-          <div className='relative' style={{ width: boardDimensions.width, height: boardDimensions.height }}>
-            {gameState.opponent && (
-              <div className='absolute top-0 left-0 p-2 bg-gray-200 rounded'>
-                Opponent: {gameState.opponent}
-              </div>
-            )}
-
-            {!isLoading && fen ? (
-              <div style={{ width: boardDimensions.width, height: boardDimensions.height }}>
-                <Chessboard
-                  position={fen}
-                  onPieceDrop={onDrop}
-                  boardOrientation={boardOrientation}
-                  boardWidth={boardDimensions.width}
-                  customBoardStyle={{
-                    borderRadius: '4px',
-                    boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
-                    border: '2px solid #ddd'
-                  }}
-                  areArrowsAllowed={true}
-                  showBoardNotation={true}
-                />
-              </div>
-            ) : (
-              <div 
-                className='bg-gray-200 rounded-lg flex items-center justify-center w-full h-full'
-                style={{
-                  minWidth: '300px',
-                  minHeight: '300px'
-                }}
-              >
-                <p className='text-gray-600 text-center p-4'>
-                  {isLoading ? 'Initializing chess board...' : 'Loading game state...'}
-                  <br />
-                  Please wait while we set up your game
-                </p>
+          {reconnecting.filter(color => color !== gameState.playerColor).map(color => (
+            <p key={color} className='mb-4 p-2 rounded bg-yellow-100 text-yellow-800'>
+              {gameState.playerColor ? 'Your opponent' : color === 'white' ? 'White' : 'Black'} is reconnecting…
+            </p>
+          ))}
+          <div className='flex items-start space-x-4'>
+            <div className='flex flex-col'>
+              {clock && (
+                <div className='mb-2 self-end'>
+                  <ChessClock
+                    clock={clock.state}
+                    color={boardOrientation === 'white' ? 'black' : 'white'}
+                    receivedAt={clock.receivedAt}
+                  />
+                </div>
+              )}
+              <div className='relative' style={{ width: boardDimensions.width, height: boardDimensions.height }}>
+                {gameState.opponent && (
+                  <div className='absolute top-0 left-0 p-2 bg-gray-200 rounded'>
+                    Opponent: {playerName(gameState.opponent)}{ratingLabel(gameState.opponent)}
+                  </div>
+                )}
+
+                {!isLoading && fen ? (
+                  <div style={{ width: boardDimensions.width, height: boardDimensions.height }}>
+                    <Chessboard
+                      position={fen}
+                      onPieceDrop={onDrop}
+                      onPromotionPieceSelect={promotionHandler(onDrop)}
+                      boardOrientation={boardOrientation}
+                      boardWidth={boardDimensions.width}
+                      customBoardStyle={{
+                        borderRadius: '4px',
+                        boxShadow: '0 2px 10px rgba(0, 0, 0, 0.1)',
+                        border: '2px solid #ddd'
+                      }}
+                      areArrowsAllowed={true}
+                      showBoardNotation={true}
+                    />
+                  </div>
+                ) : (
+                  <div 
+                    className='bg-gray-200 rounded-lg flex items-center justify-center w-full h-full'
+                    style={{
+                      minWidth: '300px',
+                      minHeight: '300px'
+                    }}
+                  >
+                    <p className='text-gray-600 text-center p-4'>
+                      {isLoading ? 'Initializing chess board...' : 'Loading game state...'}
+                      <br />
+                      Please wait while we set up your game
+                    </p>
+                  </div>
+                )}
               </div>
-            )}
+              {clock && (
+                <div className='mt-2 self-end'>
+                  <ChessClock clock={clock.state} color={boardOrientation} receivedAt={clock.receivedAt} />
+                </div>
+              )}
+            </div>
+            <ChatPanel
+              messages={chat}
+              streams={gameState.isSpectator ? ['players', 'spectators'] : ['players']}
+              ownStream={gameState.isSpectator ? 'spectators' : 'players'}
+              playerId={playerId}
+              onSend={sendChat}
+            />
+          </div>
+          {gameState.playerColor && !gameState.isSpectator && !gameOver && (
+            <div className='flex space-x-4 mt-4'>
+              {drawOffer && drawOffer !== gameState.playerColor ? (
+                <>
+                  <span className='self-center'>Your opponent offers a draw</span>
+                  <Button onClick={() => answerDraw(true)}>Accept Draw</Button>
+                  <Button onClick={() => answerDraw(false)}>Decline</Button>
+                </>
+              ) : (
+                <Button onClick={offerDraw} disabled={drawOffer === gameState.playerColor}>
+                  {drawOffer === gameState.playerColor ? 'Draw Offered' : 'Offer Draw'}
+                </Button>
+              )}
+              {takebackOffer && takebackOffer !== gameState.playerColor ? (
+                <>
+                  <span className='self-center'>Your opponent asks for a takeback</span>
+                  <Button onClick={() => answerTakeback(true)}>Allow</Button>
+                  <Button onClick={() => answerTakeback(false)}>Refuse</Button>
+                </>
+              ) : (
+                <Button onClick={requestTakeback} disabled={takebackOffer === gameState.playerColor}>
+                  {takebackOffer === gameState.playerColor ? 'Takeback Requested' : 'Takeback'}
+                </Button>
+              )}
+              <Button onClick={resign}>Resign</Button>
+            </div>
+          )}
+          <div className='flex space-x-4 mt-4'>
+            <Button onClick={exportPgn}>Export PGN</Button>
+            <Button onClick={leaveRoom}>Leave Room</Button>
           </div>
         </div>
       )}
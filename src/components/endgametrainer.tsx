@@ -0,0 +1,171 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { Chess } from 'chess.js';
+import { io } from 'socket.io-client';
+import { Button } from './ui/button';
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from './ui/select';
+import { getEngine, isCancelled, uciToMove } from '../lib/engine';
+import { cloneGame, promotionHandler } from '../lib/game';
+import { GameSocket, getSessionToken } from '../lib/multiplayer';
+import { TablebaseResult } from '../lib/protocol';
+import {
+  Endgame, EndgameProgress, checkEndgame, describeGoal, endgames, loadEndgameProgress, probeTablebase,
+  recordEndgameAttempt, studentColor
+} from '../lib/endgames';
+
+// The defender thinks this long per move, at full strength
+const ENGINE_MOVETIME_MS = 1000;
+// Tablebase replies come instantly; a short pause lets the student see their own move land
+const TABLEBASE_MOVE_DELAY_MS = 300;
+
+const wdlLabels: Record<TablebaseResult['wdl'], string> = {
+  win: 'wins',
+  draw: 'draws',
+  loss: 'loses',
+};
+
+const EndgameTrainer: React.FC = () => {
+  const [endgame, setEndgame] = useState<Endgame>(endgames[0]);
+  const [game, setGame] = useState<Chess>(() => new Chess(endgames[0].fen));
+  const [progress, setProgress] = useState<Record<string, EndgameProgress>>(loadEndgameProgress);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
+  const [connected, setConnected] = useState<boolean>(false);
+  // The latest probe and the position it was for
+  const [probe, setProbe] = useState<{ fen: string, result: TablebaseResult | null } | null>(null);
+  // Each attempt counts once, however it ended
+  const recordedRef = useRef<boolean>(false);
+
+  const fen = game.fen();
+  const student = studentColor(endgame);
+  const probed = probe?.fen === fen;
+  const tablebase = probed ? probe.result : null;
+  const check = checkEndgame(endgame, game, tablebase);
+
+  // The tablebase lives on the multiplayer server; without it the drills still work
+  useEffect(() => {
+    const connection: GameSocket = io('http://localhost:3001', { auth: { token: getSessionToken() } });
+    connection.on('connect', () => setConnected(true));
+    connection.on('disconnect', () => setConnected(false));
+    setSocket(connection);
+    return () => {
+      connection.disconnect();
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    probeTablebase(connected ? socket : null, fen).then(result => {
+      if (!cancelled) setProbe({ fen, result });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [socket, connected, fen]);
+
+  useEffect(() => {
+    if (check.status !== 'playing' || game.turn() === student || !probed) return;
+
+    const play = (move: string) => {
+      const next = cloneGame(game);
+      next.move(uciToMove(move));
+      setGame(next);
+    };
+
+    // A tablebase move is perfect play; otherwise Stockfish defends at full strength
+    if (tablebase) {
+      const timeout = setTimeout(() => play(tablebase.bestMove), TABLEBASE_MOVE_DELAY_MS);
+      return () => clearTimeout(timeout);
+    }
+
+    const search = getEngine().search({ fen: game.fen(), movetime: ENGINE_MOVETIME_MS });
+    search.bestMove
+      .then(({ move }) => play(move))
+      .catch((error) => {
+        if (!isCancelled(error)) console.error('Engine error:', error);
+      });
+    return () => search.cancel();
+  }, [check.status, game, student, probed, tablebase]);
+
+  useEffect(() => {
+    if (check.status === 'playing' || recordedRef.current) return;
+    recordedRef.current = true;
+    setProgress(recordEndgameAttempt(endgame.id, check.status === 'success'));
+  }, [check.status, endgame.id]);
+
+  const startEndgame = (next: Endgame) => {
+    setEndgame(next);
+    setGame(new Chess(next.fen));
+    setProbe(null);
+    recordedRef.current = false;
+  };
+
+  const onDrop = (sourceSquare: string, targetSquare: string, promotion?: string): boolean => {
+    if (check.status !== 'playing' || game.turn() !== student) return false;
+
+    const next = cloneGame(game);
+    try {
+      next.move({ from: sourceSquare, to: targetSquare, promotion });
+    } catch (e) {
+      return false;
+    }
+    setGame(next);
+    return true;
+  };
+
+  const movesPlayed = game.history({ verbose: true }).filter(move => move.color === student).length;
+  const nextEndgame = endgames[(endgames.indexOf(endgame) + 1) % endgames.length];
+
+  return (
+    <div className='flex flex-col items-center p-4 w-1/2 mb-4'>
+      <h1 className='text-2xl font-bold mb-4'>Endgames</h1>
+      <Select
+        value={endgame.id}
+        onValueChange={(id) => startEndgame(endgames.find(entry => entry.id === id) ?? endgames[0])}
+      >
+        <SelectTrigger className='w-[320px] mb-4'>
+          <SelectValue placeholder='Endgame' />
+        </SelectTrigger>
+        <SelectContent className='bg-white'>
+          {endgames.map(entry => (
+            <SelectItem key={entry.id} value={entry.id}>
+              {`${entry.category}: ${entry.title}${progress[entry.id]?.successes ? ' ✓' : ''}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className='mb-2 text-sm italic'>{endgame.description}</p>
+      <p className='mb-4 font-semibold'>{describeGoal(endgame)}</p>
+      {check.status !== 'playing' && (
+        <div className={`mb-4 p-2 rounded ${check.status === 'success' ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+          {check.reason}
+        </div>
+      )}
+      <Chessboard
+        position={fen}
+        onPieceDrop={onDrop}
+        onPromotionPieceSelect={promotionHandler(onDrop)}
+        boardOrientation={student === 'w' ? 'white' : 'black'}
+      />
+      <p className='mt-4'>
+        Move {movesPlayed} of {endgame.goal.moves}
+        {check.status === 'playing' && game.turn() !== student && ' - the engine is thinking...'}
+      </p>
+      {tablebase && (
+        <p className='mt-2 text-sm text-gray-600'>
+          Tablebase: {game.turn() === 'w' ? 'White' : 'Black'} to move {wdlLabels[tablebase.wdl]} with perfect play
+        </p>
+      )}
+      {progress[endgame.id] && (
+        <p className='mt-2 text-sm text-gray-600'>
+          Solved {progress[endgame.id].successes} of {progress[endgame.id].attempts} attempts
+        </p>
+      )}
+      <div className='flex space-x-4 mt-4'>
+        <Button onClick={() => startEndgame(endgame)}>Restart</Button>
+        <Button onClick={() => startEndgame(nextEndgame)}>Next Endgame</Button>
+      </div>
+    </div>
+  );
+};
+
+export default EndgameTrainer;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { EngineScore } from '../lib/engine';
+import { winChance } from '../lib/analysis';
+import { formatScore } from '../lib/evaluation';
+
+interface EvalBarProps {
+  // From White's point of view; null while nothing is known
+  score: EngineScore | null;
+  boardOrientation: 'white' | 'black';
+}
+
+// Vertical bar beside the board; White's share is their winning chances
+const EvalBar: React.FC<EvalBarProps> = ({ score, boardOrientation }) => {
+  const white = score ? winChance({ score }) : 50;
+  const whiteAhead = white >= 50;
+
+  return (
+    <div
+      className={`relative w-6 flex rounded overflow-hidden bg-gray-800 ${
+        boardOrientation === 'white' ? 'flex-col-reverse' : 'flex-col'
+      }`}
+      title={score ? formatScore(score) : 'No evaluation yet'}
+    >
+      <div className='bg-white transition-all duration-300' style={{ height: `${white}%` }} />
+      {score && (
+        <span
+          className={`absolute left-0 right-0 text-center text-[10px] font-semibold ${
+            whiteAhead === (boardOrientation === 'white') ? 'bottom-1' : 'top-1'
+          } ${whiteAhead ? 'text-gray-800' : 'text-white'}`}
+        >
+          {formatScore(score).replace(/^\+/, '')}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export default EvalBar;
@@ -0,0 +1,200 @@
+import React, { useState, useEffect } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { Chess, Square } from 'chess.js';
+import { Button } from './ui/button';
+import { isCancelled, uciToMove } from '../lib/engine';
+import { GameReport, analyzeGame, moveLabel, winChance } from '../lib/analysis';
+import { MoveClassification, classificationStyles, formatScore } from '../lib/evaluation';
+import { PgnHeaders, annotateGameRecord, createGameRecord, downloadPgn, recordToGame, toPgn } from '../lib/pgn';
+import { addPuzzles, loadPuzzleStats, minePuzzles } from '../lib/puzzles';
+
+interface GameReviewProps {
+  startFen: string;
+  moves: string[];
+  headers?: PgnHeaders;
+  boardOrientation?: 'white' | 'black';
+  onClose: () => void;
+}
+
+const GRAPH_WIDTH = 480;
+const GRAPH_HEIGHT = 120;
+const markerColors: Record<MoveClassification, string> = {
+  best: '#3b82f6',
+  excellent: '#16a34a',
+  good: '#4ade80',
+  inaccuracy: '#facc15',
+  mistake: '#f97316',
+  blunder: '#ef4444',
+};
+const ARROW_COLORS = ['rgba(0, 128, 0, 0.8)', 'rgba(0, 128, 0, 0.5)', 'rgba(0, 128, 0, 0.3)'];
+
+// Converts the engine's best line into arrows, replaying it so later moves land on the right squares
+const lineToArrows = (fen: string, pv: string[]): [Square, Square, string][] => {
+  const game = new Chess(fen);
+  const arrows: [Square, Square, string][] = [];
+  for (const uci of pv.slice(0, ARROW_COLORS.length)) {
+    try {
+      const move = game.move(uciToMove(uci));
+      arrows.push([move.from, move.to, ARROW_COLORS[arrows.length]]);
+    } catch (e) {
+      break;
+    }
+  }
+  return arrows;
+};
+
+const GameReview: React.FC<GameReviewProps> = ({ startFen, moves, headers, boardOrientation = 'white', onClose }) => {
+  const [report, setReport] = useState<GameReport | null>(null);
+  const [progress, setProgress] = useState<{ done: number, total: number }>({ done: 0, total: moves.length + 1 });
+  const [selectedPly, setSelectedPly] = useState<number>(0);
+  // Puzzles this game's blunders added to the puzzle library
+  const [minedPuzzles, setMinedPuzzles] = useState<number>(0);
+
+  // Callers usually pass a fresh array every render; only restart for a different game
+  const movesKey = moves.join(' ');
+
+  useEffect(() => {
+    const analysis = analyzeGame(startFen, movesKey ? movesKey.split(' ') : [], {
+      onProgress: (done, total) => setProgress({ done, total }),
+    });
+
+    analysis.result
+      .then((result) => {
+        setReport(result);
+        setSelectedPly(result.moves.length);
+        // Mined puzzles start out at the solver's own level
+        setMinedPuzzles(addPuzzles(minePuzzles(result, loadPuzzleStats().rating.rating)));
+      })
+      .catch((error) => {
+        if (!isCancelled(error)) console.error('Analysis error:', error);
+      });
+
+    return () => analysis.cancel();
+  }, [startFen, movesKey]);
+
+  if (!report) {
+    return (
+      <div className='flex flex-col items-center'>
+        <p className='mb-4'>Analysing position {progress.done} of {progress.total}...</p>
+        <Button onClick={onClose}>Back to Game</Button>
+      </div>
+    );
+  }
+
+  const points = report.evaluations.map((evaluation, ply) => ({
+    x: report.evaluations.length > 1 ? (ply / (report.evaluations.length - 1)) * GRAPH_WIDTH : 0,
+    y: GRAPH_HEIGHT - (winChance(evaluation) / 100) * GRAPH_HEIGHT,
+  }));
+  const selectedEval = report.evaluations[selectedPly];
+
+  const exportAnnotatedPgn = () => {
+    const record = createGameRecord(recordToGame({ headers: {}, startFen, moves }), headers);
+    downloadPgn(toPgn(annotateGameRecord(record, report)), 'chessdojo-review');
+  };
+  const selectedMove = selectedPly > 0 ? report.moves[selectedPly - 1] : null;
+
+  return (
+    <div className='flex flex-col items-center w-full'>
+      <h2 className='text-xl font-bold mb-4'>Game Review</h2>
+      <svg
+        width={GRAPH_WIDTH}
+        height={GRAPH_HEIGHT}
+        className='mb-4 bg-gray-800 rounded cursor-pointer'
+        onClick={(e) => {
+          const x = e.clientX - e.currentTarget.getBoundingClientRect().left;
+          const ply = Math.round((x / GRAPH_WIDTH) * (report.evaluations.length - 1));
+          setSelectedPly(Math.max(0, Math.min(report.moves.length, ply)));
+        }}
+      >
+        <polygon
+          points={`0,${GRAPH_HEIGHT} ${points.map(point => `${point.x},${point.y}`).join(' ')} ${GRAPH_WIDTH},${GRAPH_HEIGHT}`}
+          fill='white'
+        />
+        <line x1={0} y1={GRAPH_HEIGHT / 2} x2={GRAPH_WIDTH} y2={GRAPH_HEIGHT / 2} stroke='gray' strokeDasharray='4' />
+        {report.turningPoints.map(move => (
+          <circle
+            key={move.ply}
+            cx={points[move.ply].x}
+            cy={points[move.ply].y}
+            r={4}
+            fill={markerColors[move.classification]}
+          />
+        ))}
+        <line x1={points[selectedPly].x} y1={0} x2={points[selectedPly].x} y2={GRAPH_HEIGHT} stroke='#3b82f6' strokeWidth={2} />
+      </svg>
+
+      <table className='mb-4 text-sm'>
+        <thead>
+          <tr>
+            <th className='pr-4' />
+            <th className='pr-4'>Accuracy</th>
+            <th className='pr-4'>Avg. loss</th>
+            {Object.values(classificationStyles).map(style => (
+              <th key={style.label} className='pr-2'>{style.label}</th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {(['w', 'b'] as const).map(color => {
+            const summary = report.players[color];
+            return (
+              <tr key={color}>
+                <td className='pr-4 font-semibold'>{color === 'w' ? 'White' : 'Black'}</td>
+                <td className='pr-4 text-center'>{summary.accuracy.toFixed(1)}%</td>
+                <td className='pr-4 text-center'>{Math.round(summary.averageLoss)} cp</td>
+                {(Object.keys(classificationStyles) as MoveClassification[]).map(classification => (
+                  <td key={classification} className='pr-2 text-center'>{summary.counts[classification]}</td>
+                ))}
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {minedPuzzles > 0 && (
+        <p className='mb-4 text-sm text-gray-600'>
+          {minedPuzzles} new puzzle{minedPuzzles === 1 ? '' : 's'} from this game's blunders added to Puzzles.
+        </p>
+      )}
+
+      {report.turningPoints.length > 0 && (
+        <div className='mb-4'>
+          <p className='font-semibold'>Turning points</p>
+          <ul className='text-sm'>
+            {report.turningPoints.map(move => (
+              <li key={move.ply} className='cursor-pointer hover:underline' onClick={() => setSelectedPly(move.ply)}>
+                {moveLabel(move)}: {classificationStyles[move.classification].label}
+                {' '}(-{move.loss} cp{move.bestSan ? `, best was ${move.bestSan}` : ''})
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      <p className='mb-2'>
+        {selectedMove
+          ? `${moveLabel(selectedMove)} (${classificationStyles[selectedMove.classification].label})`
+          : 'Starting position'}
+        {' '}- Evaluation: {formatScore(selectedEval.score)}
+      </p>
+      <Chessboard
+        position={report.fens[selectedPly]}
+        arePiecesDraggable={false}
+        boardOrientation={boardOrientation}
+        customArrows={lineToArrows(report.fens[selectedPly], selectedEval.pv)}
+      />
+      <div className='flex space-x-4 mt-4'>
+        <Button onClick={() => setSelectedPly(ply => Math.max(0, ply - 1))} disabled={selectedPly === 0}>
+          Previous
+        </Button>
+        <Button onClick={() => setSelectedPly(ply => Math.min(report.moves.length, ply + 1))} disabled={selectedPly === report.moves.length}>
+          Next
+        </Button>
+        <Button onClick={exportAnnotatedPgn}>Export Annotated PGN</Button>
+        <Button onClick={onClose}>Back to Game</Button>
+      </div>
+    </div>
+  );
+};
+
+export default GameReview;
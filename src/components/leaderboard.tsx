@@ -0,0 +1,116 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from './ui/select';
+import { TimeControlCategory } from '../lib/clock';
+import { GameSocket, formatRating } from '../lib/multiplayer';
+import { PublicProfile, RATING_CATEGORIES, RatingHistoryEntry } from '../lib/protocol';
+
+interface LeaderboardProps {
+  socket: GameSocket | null;
+  playerId: string | null;
+}
+
+const GRAPH_WIDTH = 300;
+const GRAPH_HEIGHT = 80;
+
+const Leaderboard: React.FC<LeaderboardProps> = ({ socket, playerId }) => {
+  const [category, setCategory] = useState<TimeControlCategory>('blitz');
+  const [leaders, setLeaders] = useState<PublicProfile[]>([]);
+  const [selected, setSelected] = useState<{ profile: PublicProfile, history: RatingHistoryEntry[] } | null>(null);
+
+  useEffect(() => {
+    socket?.emit('getLeaderboard', { category }, setLeaders);
+  }, [socket, category]);
+
+  const showHistory = (id: string) => {
+    socket?.emit('getRatingHistory', id, setSelected);
+  };
+
+  const history = selected?.history.filter(entry => entry.category === category) ?? [];
+  const low = Math.min(...history.map(entry => entry.rating));
+  const high = Math.max(...history.map(entry => entry.rating));
+  const points = history.map((entry, index) => ({
+    x: history.length > 1 ? (index / (history.length - 1)) * GRAPH_WIDTH : GRAPH_WIDTH / 2,
+    y: high > low ? GRAPH_HEIGHT - ((entry.rating - low) / (high - low)) * GRAPH_HEIGHT : GRAPH_HEIGHT / 2,
+  }));
+
+  return (
+    <div className='w-full'>
+      <div className='flex items-center space-x-2 mb-2'>
+        <p className='font-semibold'>Leaderboard</p>
+        <Select value={category} onValueChange={(value) => setCategory(value as TimeControlCategory)}>
+          <SelectTrigger className='w-[120px]'>
+            <SelectValue placeholder='Category' />
+          </SelectTrigger>
+          <SelectContent className='bg-white'>
+            {RATING_CATEGORIES.map(option => (
+              <SelectItem key={option} value={option}>{option[0].toUpperCase() + option.slice(1)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {leaders.length === 0 ? (
+        <p className='text-sm text-gray-500'>No rated {category} games yet</p>
+      ) : (
+        <table className='text-sm'>
+          <tbody>
+            {leaders.map((profile, index) => (
+              <tr
+                key={profile.id}
+                className={`cursor-pointer hover:bg-gray-100 ${profile.id === playerId ? 'font-semibold' : ''}`}
+                onClick={() => showHistory(profile.id)}
+              >
+                <td className='pr-4'>{index + 1}.</td>
+                <td className='pr-4'>{profile.name}</td>
+                <td className='pr-4'>{formatRating(profile.ratings[category])}</td>
+                <td>{profile.ratings[category]?.games} games</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+      {playerId && (
+        <Button size='sm' className='mt-2' onClick={() => showHistory(playerId)}>My Rating History</Button>
+      )}
+
+      {selected && (
+        <div className='mt-4'>
+          <p className='font-semibold mb-2'>
+            {selected.profile.name}: {formatRating(selected.profile.ratings[category])} {category}
+          </p>
+          {history.length === 0 ? (
+            <p className='text-sm text-gray-500'>No rated {category} games</p>
+          ) : (
+            <>
+              <svg width={GRAPH_WIDTH} height={GRAPH_HEIGHT} className='mb-2 bg-gray-800 rounded overflow-visible'>
+                <polyline
+                  points={points.map(point => `${point.x},${point.y}`).join(' ')}
+                  fill='none'
+                  stroke='white'
+                  strokeWidth={2}
+                />
+                {points.map((point, index) => (
+                  <circle key={history[index].gameId} cx={point.x} cy={point.y} r={2} fill='#3b82f6' />
+                ))}
+              </svg>
+              <table className='text-sm'>
+                <tbody>
+                  {history.slice(-10).reverse().map(entry => (
+                    <tr key={entry.gameId}>
+                      <td className='pr-4'>{new Date(entry.at).toLocaleDateString()}</td>
+                      <td className='pr-4'>{Math.round(entry.rating)}</td>
+                      <td className='text-gray-500'>±{Math.round(entry.rd)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+          <Button size='sm' className='mt-2' onClick={() => setSelected(null)}>Close</Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Leaderboard;
@@ -0,0 +1,149 @@
+import React, { useState, useEffect } from 'react';
+import { Button } from './ui/button';
+import { Switch } from './ui/switch';
+import { Select, SelectTrigger, SelectValue, SelectContent, SelectItem } from './ui/select';
+import { TimeControl, formatTimeControl, timeControlCategory, timeControlPresets } from '../lib/clock';
+import { GameSocket, colorChoices, formatRating } from '../lib/multiplayer';
+import { LobbyState, SeekColor } from '../lib/protocol';
+
+interface LobbyProps {
+  socket: GameSocket | null;
+  playerId: string | null;
+  playerName: (id?: string) => string;
+  onJoinRoom: (roomId: string) => void;
+}
+
+// Seeks need a clock to be rated, so the default is the first timed preset
+const timedPresets = timeControlPresets.filter(preset => preset.timeControl);
+
+const Lobby: React.FC<LobbyProps> = ({ socket, playerId, playerName, onJoinRoom }) => {
+  const [lobby, setLobby] = useState<LobbyState>({ profiles: {}, seeks: [], games: [] });
+  const [timeControlName, setTimeControlName] = useState<string>(timedPresets[0].name);
+  const [color, setColor] = useState<SeekColor>('random');
+  const [rated, setRated] = useState<boolean>(false);
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const enter = () => socket.emit('enterLobby');
+    const onPaired = ({ roomId }: { roomId: string }) => onJoinRoom(roomId);
+
+    socket.on('lobby', setLobby);
+    socket.on('paired', onPaired);
+    // Lobby membership does not survive a reconnect, so enter again on every connect
+    socket.on('connect', enter);
+    if (socket.connected) enter();
+
+    return () => {
+      socket.off('lobby', setLobby);
+      socket.off('paired', onPaired);
+      socket.off('connect', enter);
+      socket.emit('leaveLobby');
+    };
+  }, [socket, onJoinRoom]);
+
+  const timeControl = timeControlPresets.find(preset => preset.name === timeControlName)?.timeControl ?? null;
+  const mySeeks = lobby.seeks.filter(seek => seek.playerId === playerId);
+
+  // Names come with the lobby state; ratings are shown for the game's category
+  const describePlayer = (id: string | undefined, timeControl: TimeControl | null) => {
+    const name = id && id !== playerId ? lobby.profiles[id]?.name ?? playerName(id) : playerName(id);
+    if (!id || !timeControl) return name;
+    return `${name} (${formatRating(lobby.profiles[id]?.ratings[timeControlCategory(timeControl)])})`;
+  };
+
+  const createSeek = () => {
+    socket?.emit('createSeek', { timeControl, color, rated: rated && !!timeControl });
+  };
+
+  return (
+    <div className='flex flex-col space-y-4 w-full'>
+      <div>
+        <p className='font-semibold mb-2'>Seek a Game</p>
+        <div className='flex items-center space-x-2'>
+          <Select value={timeControlName} onValueChange={setTimeControlName}>
+            <SelectTrigger className='w-[120px]'>
+              <SelectValue placeholder='Time control' />
+            </SelectTrigger>
+            <SelectContent className='bg-white'>
+              {timeControlPresets.map(preset => (
+                <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={color} onValueChange={(value) => setColor(value as SeekColor)}>
+            <SelectTrigger className='w-[110px]'>
+              <SelectValue placeholder='Color' />
+            </SelectTrigger>
+            <SelectContent className='bg-white'>
+              {colorChoices.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Switch checked={rated && !!timeControl} onCheckedChange={setRated} disabled={!timeControl} />
+          <span>{rated && timeControl ? 'Rated' : 'Casual'}</span>
+          <Button onClick={createSeek}>Seek</Button>
+        </div>
+        {mySeeks.length > 0 && <p className='mt-2 text-sm text-gray-600'>Waiting for an opponent...</p>}
+      </div>
+
+      <div>
+        <p className='font-semibold mb-2'>Open Seeks</p>
+        {lobby.seeks.length === 0 ? (
+          <p className='text-sm text-gray-500'>No open seeks</p>
+        ) : (
+          <table className='text-sm'>
+            <tbody>
+              {lobby.seeks.map(seek => (
+                <tr key={seek.id}>
+                  <td className='pr-4'>{describePlayer(seek.playerId, seek.timeControl)}</td>
+                  <td className='pr-4'>
+                    {formatTimeControl(seek.timeControl)}
+                    {seek.timeControl && ` (${timeControlCategory(seek.timeControl)})`}
+                  </td>
+                  <td className='pr-4'>{colorChoices.find(option => option.value === seek.color)?.label}</td>
+                  <td className='pr-4'>{seek.rated ? 'Rated' : 'Casual'}</td>
+                  <td>
+                    {seek.playerId === playerId ? (
+                      <Button size='sm' onClick={() => socket?.emit('cancelSeek', seek.id)}>Cancel</Button>
+                    ) : (
+                      <Button size='sm' onClick={() => socket?.emit('acceptSeek', seek.id)}>Play</Button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div>
+        <p className='font-semibold mb-2'>Games in Progress</p>
+        {lobby.games.length === 0 ? (
+          <p className='text-sm text-gray-500'>No games in progress</p>
+        ) : (
+          <table className='text-sm'>
+            <tbody>
+              {lobby.games.map(game => (
+                <tr key={game.roomId}>
+                  <td className='pr-4'>
+                    {describePlayer(game.players.white, game.timeControl)} vs {describePlayer(game.players.black, game.timeControl)}
+                  </td>
+                  <td className='pr-4'>{formatTimeControl(game.timeControl)}</td>
+                  <td className='pr-4'>{game.rated ? 'Rated' : 'Casual'}</td>
+                  <td className='pr-4'>{Math.ceil(game.moveCount / 2)} moves</td>
+                  <td>
+                    <Button size='sm' onClick={() => onJoinRoom(game.roomId)}>Watch</Button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Lobby;
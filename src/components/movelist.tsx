@@ -0,0 +1,102 @@
+import React from 'react';
+import { MoveTree, MoveTreeNode, getMainline } from '../lib/movetree';
+
+interface MoveListProps {
+  tree: MoveTree;
+  currentId: string;
+  onSelect: (nodeId: string) => void;
+}
+
+interface MoveRow {
+  number: number;
+  white?: MoveTreeNode;
+  black?: MoveTreeNode;
+}
+
+const MoveList: React.FC<MoveListProps> = ({ tree, currentId, onSelect }) => {
+  // Move number and side to move come from the position the move was played in
+  const moveInfo = (node: MoveTreeNode) => {
+    const fields = tree.nodes[node.parentId as string].fen.split(' ');
+    return { white: fields[1] === 'w', number: Number(fields[5]) };
+  };
+
+  // Alternatives are listed after the move they replace, i.e. the first child
+  const alternativesTo = (node: MoveTreeNode): string[] => {
+    const siblings = tree.nodes[node.parentId as string].children;
+    return siblings[0] === node.id ? siblings.slice(1) : [];
+  };
+
+  const renderMove = (node: MoveTreeNode) => (
+    <span
+      key={node.id}
+      className={`cursor-pointer px-1 rounded ${node.id === currentId ? 'bg-blue-500 text-white' : 'hover:bg-gray-200'}`}
+      onClick={() => onSelect(node.id)}
+    >
+      {node.san}
+    </span>
+  );
+
+  const renderVariation = (firstId: string): React.ReactNode[] => {
+    const elements: React.ReactNode[] = [];
+    let nodeId: string | undefined = firstId;
+    let showNumber = true;
+    while (nodeId) {
+      const node: MoveTreeNode = tree.nodes[nodeId];
+      const { white, number } = moveInfo(node);
+      if (white || showNumber) {
+        elements.push(<span key={`${node.id}-number`} className='text-gray-500'>{number}{white ? '.' : '...'}</span>);
+      }
+      elements.push(renderMove(node));
+      const alternatives = alternativesTo(node);
+      alternatives.forEach(alternativeId => {
+        elements.push(<span key={alternativeId} className='mx-1'>({renderVariation(alternativeId)})</span>);
+      });
+      showNumber = alternatives.length > 0;
+      nodeId = node.children[0];
+    }
+    return elements;
+  };
+
+  const rows: MoveRow[] = [];
+  getMainline(tree).forEach(node => {
+    const { white, number } = moveInfo(node);
+    const lastRow = rows[rows.length - 1];
+    if (white) {
+      rows.push({ number, white: node });
+    } else if (lastRow && lastRow.number === number && !lastRow.black) {
+      lastRow.black = node;
+    } else {
+      rows.push({ number, black: node });
+    }
+  });
+
+  if (rows.length === 0) {
+    return <p className='mt-4 text-sm text-gray-500'>No moves yet</p>;
+  }
+
+  return (
+    <div className='mt-4 w-full max-h-64 overflow-y-auto border rounded p-2 text-sm'>
+      {rows.map(row => {
+        const variations = [row.white, row.black].flatMap(node => node ? alternativesTo(node) : []);
+        return (
+          <React.Fragment key={row.number}>
+            <div className='flex'>
+              <span className='w-10 text-gray-500'>{row.number}.</span>
+              <span className='w-24'>{row.white ? renderMove(row.white) : '...'}</span>
+              <span className='w-24'>{row.black && renderMove(row.black)}</span>
+            </div>
+            {variations.length > 0 && (
+              <div className='pl-10 text-gray-600'>
+                {variations.map(variationId => (
+                  <div key={variationId}>({renderVariation(variationId)})</div>
+                ))}
+              </div>
+            )}
+          </React.Fragment>
+        );
+      })}
+    </div>
+  );
+};
+
+export default MoveList;
@@ -0,0 +1,211 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { Chess } from 'chess.js';
+import { Button } from './ui/button';
+import {
+  OpeningDefinition, OpeningLine, LineProgress, checkBookMove, getBookMoves,
+  getLineProgress, isLineFinished, lineId, loadLineProgress, pickLine, updateLineProgress
+} from '../lib/openings';
+import { addReviewCard } from '../lib/review';
+import { promotionHandler } from '../lib/game';
+
+interface OpeningTrainerProps {
+  opening: OpeningDefinition;
+}
+
+type Feedback = { type: 'info' | 'error' | 'success', text: string };
+
+const feedbackStyles: Record<Feedback['type'], string> = {
+  info: 'bg-blue-100 text-blue-700',
+  error: 'bg-red-100 text-red-700',
+  success: 'bg-green-100 text-green-700',
+};
+
+const OpeningTrainer: React.FC<OpeningTrainerProps> = ({ opening }) => {
+  const [game, setGame] = useState<Chess>(new Chess());
+  const [path, setPath] = useState<string[]>([]);
+  const [progress, setProgress] = useState<Record<string, LineProgress>>(loadLineProgress);
+  const [targetLine, setTargetLine] = useState<OpeningLine | undefined>(undefined);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [deviated, setDeviated] = useState<boolean>(false);
+  const [isComplete, setIsComplete] = useState<boolean>(false);
+
+  const startDrill = useCallback((line?: OpeningLine) => {
+    const nextLine = line ?? pickLine(opening, loadLineProgress());
+    setGame(new Chess());
+    setPath([]);
+    setTargetLine(nextLine);
+    setDeviated(false);
+    setIsComplete(false);
+    setFeedback(nextLine ? { type: 'info', text: `Drilling: ${nextLine.name}` } : null);
+    if (nextLine) {
+      setProgress(updateLineProgress(lineId(opening.name, nextLine.name), current => ({
+        ...current,
+        attempts: current.attempts + 1,
+      })));
+    }
+  }, [opening]);
+
+  // Restarts whenever a different opening is chosen
+  useEffect(() => {
+    startDrill();
+  }, [startDrill]);
+
+  const finishLine = useCallback((line: OpeningLine) => {
+    setIsComplete(true);
+    setProgress(updateLineProgress(lineId(opening.name, line.name), current => ({
+      ...current,
+      completions: current.completions + 1,
+      perfectRuns: deviated ? current.perfectRuns : current.perfectRuns + 1,
+    })));
+    setFeedback({
+      type: 'success',
+      text: deviated
+        ? `Line complete: ${line.name}. Try it again without mistakes!`
+        : `Perfect! You played every move of ${line.name} from memory.`,
+    });
+  }, [opening, deviated]);
+
+  const playMove = useCallback((san: string) => {
+    const newGame = new Chess();
+    [...path, san].forEach(move => newGame.move(move));
+    const newPath = [...path, san];
+
+    // A different book move may switch the drill to another line
+    const line = targetLine && targetLine.moves[path.length] === san
+      ? targetLine
+      : pickLine(opening, progress, newPath);
+
+    setGame(newGame);
+    setPath(newPath);
+    setTargetLine(line);
+
+    // The line we switched to is being attempted now too
+    if (line && line.name !== targetLine?.name) {
+      setProgress(updateLineProgress(lineId(opening.name, line.name), current => ({
+        ...current,
+        attempts: current.attempts + 1,
+      })));
+    }
+
+    if (line && isLineFinished(line, newPath)) {
+      finishLine(line);
+    }
+  }, [opening, path, targetLine, progress, finishLine]);
+
+  // The trainer replies with the book move of the line being drilled
+  useEffect(() => {
+    if (isComplete || !targetLine || game.turn() === opening.side) return;
+
+    const reply = targetLine.moves[path.length];
+    if (!reply) return;
+
+    const timeout = setTimeout(() => {
+      const node = getBookMoves(opening, path).find(child => child.san === reply);
+      if (node?.comment) setFeedback({ type: 'info', text: `${reply}: ${node.comment}` });
+      playMove(reply);
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [game, path, targetLine, isComplete, opening, playMove]);
+
+  const onDrop = (sourceSquare: string, targetSquare: string, promotion?: string): boolean => {
+    if (isComplete || game.turn() !== opening.side) return false;
+
+    const trial = new Chess(game.fen());
+    let san: string;
+    try {
+      san = trial.move({ from: sourceSquare, to: targetSquare, promotion }).san;
+    } catch (e) {
+      return false;
+    }
+
+    const check = checkBookMove(opening, path, san);
+    if (!check.inBook) {
+      setDeviated(true);
+      setFeedback({ type: 'error', text: check.explanation });
+      addReviewCard({
+        fen: game.fen(),
+        answers: check.expected.map(node => node.san),
+        source: 'opening',
+        title: targetLine ? `${opening.name} - ${targetLine.name}` : opening.name,
+        explanation: check.expected[0]?.comment,
+      });
+      if (targetLine) {
+        setProgress(updateLineProgress(lineId(opening.name, targetLine.name), current => ({
+          ...current,
+          deviations: current.deviations + 1,
+        })));
+      }
+      return false;
+    }
+
+    setFeedback(check.node.comment ? { type: 'info', text: `${san}: ${check.node.comment}` } : null);
+    playMove(san);
+    return true;
+  };
+
+  const showHint = () => {
+    const [main] = getBookMoves(opening, path);
+    if (main) {
+      setDeviated(true);
+      setFeedback({ type: 'info', text: `Book move: ${main.san}${main.comment ? ` - ${main.comment}` : ''}` });
+    }
+  };
+
+  return (
+    <div className='flex flex-col items-center w-full'>
+      <p className='mb-2'>
+        You play {opening.side === 'w' ? 'White' : 'Black'}
+        {targetLine ? ` - ${targetLine.name}` : ''}
+      </p>
+      {feedback && (
+        <div className={`mb-4 p-2 rounded ${feedbackStyles[feedback.type]}`}>
+          {feedback.text}
+        </div>
+      )}
+      <Chessboard
+        position={game.fen()}
+        onPieceDrop={onDrop}
+        onPromotionPieceSelect={promotionHandler(onDrop)}
+        boardOrientation={opening.side === 'w' ? 'white' : 'black'}
+      />
+      <div className='flex space-x-4 mt-4'>
+        <Button onClick={() => startDrill(targetLine)}>Restart Line</Button>
+        <Button onClick={() => startDrill()}>Next Line</Button>
+        <Button onClick={showHint} disabled={isComplete || game.turn() !== opening.side}>
+          Show Book Move
+        </Button>
+      </div>
+      <table className='mt-4 text-sm'>
+        <thead>
+          <tr>
+            <th className='text-left pr-4'>Line</th>
+            <th className='pr-4'>Completed</th>
+            <th className='pr-4'>Perfect</th>
+            <th>Deviations</th>
+          </tr>
+        </thead>
+        <tbody>
+          {opening.lines.map(line => {
+            const stats = getLineProgress(progress, lineId(opening.name, line.name));
+            return (
+              <tr
+                key={line.name}
+                className={`cursor-pointer ${line.name === targetLine?.name ? 'font-bold' : ''}`}
+                onClick={() => startDrill(line)}
+              >
+                <td className='text-left pr-4'>{line.name}</td>
+                <td className='text-center pr-4'>{stats.completions}/{stats.attempts}</td>
+                <td className='text-center pr-4'>{stats.perfectRuns}</td>
+                <td className='text-center'>{stats.deviations}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default OpeningTrainer;
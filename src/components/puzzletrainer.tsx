@@ -0,0 +1,195 @@
+import React, { useState, useEffect } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { Chess } from 'chess.js';
+import { Button } from './ui/button';
+import { uciToMove } from '../lib/engine';
+import { cloneGame, promotionHandler } from '../lib/game';
+import { formatRating } from '../lib/multiplayer';
+import {
+  MAX_PUZZLES, Puzzle, PuzzleStats, addPuzzles, checkPuzzleMove, loadPuzzleStats, loadPuzzles, parsePuzzleFile,
+  pickPuzzle, recordPuzzleAttempt, removePuzzle
+} from '../lib/puzzles';
+
+type Feedback = { type: 'info' | 'error' | 'success', text: string };
+
+const feedbackStyles: Record<Feedback['type'], string> = {
+  info: 'bg-blue-100 text-blue-700',
+  error: 'bg-red-100 text-red-700',
+  success: 'bg-green-100 text-green-700',
+};
+
+const sourceLabels: Record<Puzzle['source'], string> = {
+  imported: 'Imported',
+  mined: 'From your games',
+};
+
+// How many unreadable entries an import reports by name
+const SHOWN_IMPORT_ERRORS = 3;
+
+const PuzzleTrainer: React.FC = () => {
+  const [puzzles, setPuzzles] = useState<Puzzle[]>(loadPuzzles);
+  const [stats, setStats] = useState<PuzzleStats>(loadPuzzleStats);
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(() => pickPuzzle(loadPuzzles(), loadPuzzleStats()));
+  const [game, setGame] = useState<Chess>(() => new Chess(puzzle?.fen));
+  // Index in puzzle.moves of the next move to be played, by either side
+  const [index, setIndex] = useState<number>(0);
+  const [failed, setFailed] = useState<boolean>(false);
+  const [isComplete, setIsComplete] = useState<boolean>(false);
+  const [feedback, setFeedback] = useState<Feedback | null>(null);
+  const [importMessage, setImportMessage] = useState<string>('');
+
+  const startPuzzle = (next: Puzzle | null) => {
+    setPuzzle(next);
+    setGame(new Chess(next?.fen));
+    setIndex(0);
+    setFailed(false);
+    setIsComplete(false);
+    setFeedback(null);
+  };
+
+  // The opponent's moves are the even ones, starting with the one that sets up the puzzle
+  useEffect(() => {
+    if (!puzzle || isComplete || index % 2 === 1 || index >= puzzle.moves.length) return;
+
+    const timeout = setTimeout(() => {
+      const next = cloneGame(game);
+      next.move(uciToMove(puzzle.moves[index]));
+      setGame(next);
+      setIndex(index + 1);
+    }, 500);
+
+    return () => clearTimeout(timeout);
+  }, [puzzle, game, index, isComplete]);
+
+  const fail = (current: Puzzle) => {
+    if (!failed) setStats(recordPuzzleAttempt(current, false));
+    setFailed(true);
+  };
+
+  const onDrop = (sourceSquare: string, targetSquare: string, promotion?: string): boolean => {
+    if (!puzzle || isComplete || index % 2 === 0) return false;
+
+    const next = cloneGame(game);
+    try {
+      next.move({ from: sourceSquare, to: targetSquare, promotion });
+    } catch (e) {
+      return false;
+    }
+
+    const check = checkPuzzleMove(puzzle, index, next);
+    if (check.result === 'wrong') {
+      fail(puzzle);
+      setFeedback({ type: 'error', text: 'That is not the move. Try again, or look at the solution.' });
+      return false;
+    }
+
+    setGame(next);
+    if (check.solved) {
+      if (!failed) setStats(recordPuzzleAttempt(puzzle, true));
+      setIsComplete(true);
+      setFeedback({ type: 'success', text: failed ? 'Solved, on the second try.' : 'Solved!' });
+    } else {
+      setIndex(index + 1);
+      setFeedback({ type: 'info', text: 'Correct, keep going.' });
+    }
+    return true;
+  };
+
+  const showSolution = () => {
+    if (!puzzle) return;
+    fail(puzzle);
+    const next = cloneGame(game);
+    const sans = puzzle.moves.slice(index).map(uci => next.move(uciToMove(uci)).san);
+    setGame(next);
+    setIndex(puzzle.moves.length);
+    setIsComplete(true);
+    setFeedback({ type: 'info', text: `Solution: ${sans.join(' ')}` });
+  };
+
+  const importFile = async (file: File) => {
+    const { puzzles: imported, skipped } = parsePuzzleFile(file.name, await file.text());
+    const added = addPuzzles(imported);
+    const library = loadPuzzles();
+    setPuzzles(library);
+    setImportMessage([
+      `Imported ${added} new puzzle${added === 1 ? '' : 's'} from ${file.name}.`,
+      library.length >= MAX_PUZZLES ? `The library is full at ${MAX_PUZZLES} puzzles.` : '',
+      skipped.length ? `Skipped ${skipped.length}: ${skipped.slice(0, SHOWN_IMPORT_ERRORS).join('; ')}` : '',
+    ].filter(Boolean).join(' '));
+    if (!puzzle) startPuzzle(pickPuzzle(library, stats));
+  };
+
+  const deletePuzzle = () => {
+    if (!puzzle) return;
+    const library = removePuzzle(puzzle.id);
+    setPuzzles(library);
+    startPuzzle(pickPuzzle(library, stats, puzzle.id));
+  };
+
+  const solver = puzzle ? (new Chess(puzzle.fen).turn() === 'w' ? 'black' : 'white') : 'white';
+  const solvedCount = Object.values(stats.attempts).filter(attempt => attempt.solved).length;
+
+  return (
+    <div className='flex flex-col items-center p-4 w-1/2 mb-4'>
+      <h1 className='text-2xl font-bold mb-4'>Puzzles</h1>
+      <p className='mb-4'>
+        Puzzle rating: <span className='font-semibold'>{formatRating(stats.rating)}</span>
+        {' '}- {solvedCount} solved of {Object.keys(stats.attempts).length} tried - {puzzles.length} in the library
+      </p>
+      {puzzle ? (
+        <>
+          <p className='mb-2'>
+            {sourceLabels[puzzle.source]} puzzle, rated {Math.round(puzzle.rating)}.
+            {' '}Find the best move for {solver === 'white' ? 'White' : 'Black'}.
+          </p>
+          {feedback && (
+            <div className={`mb-4 p-2 rounded ${feedbackStyles[feedback.type]}`}>
+              {feedback.text}
+            </div>
+          )}
+          <Chessboard
+            position={game.fen()}
+            onPieceDrop={onDrop}
+            onPromotionPieceSelect={promotionHandler(onDrop)}
+            boardOrientation={solver}
+          />
+          {isComplete && (puzzle.themes.length > 0 || puzzle.gameUrl) && (
+            <p className='mt-2 text-sm text-gray-600'>
+              {puzzle.themes.join(', ')}
+              {puzzle.gameUrl && (
+                <> - <a href={puzzle.gameUrl} target='_blank' rel='noreferrer' className='underline'>source game</a></>
+              )}
+            </p>
+          )}
+          <div className='flex space-x-4 mt-4'>
+            <Button onClick={() => startPuzzle(pickPuzzle(puzzles, stats, puzzle.id))}>
+              {isComplete ? 'Next Puzzle' : 'Skip'}
+            </Button>
+            <Button onClick={showSolution} disabled={isComplete}>Show Solution</Button>
+            <Button onClick={deletePuzzle}>Remove Puzzle</Button>
+          </div>
+        </>
+      ) : (
+        <p className='mb-4'>
+          No puzzles yet. Import a file in the Lichess puzzle format, or review your games: their blunders become puzzles.
+        </p>
+      )}
+      <div className='mt-6 flex flex-col items-center'>
+        <label className='font-semibold mb-2' htmlFor='puzzle-import'>Import puzzles (Lichess CSV or JSON)</label>
+        <input
+          id='puzzle-import'
+          type='file'
+          accept='.csv,.json'
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) importFile(file).catch(error => setImportMessage(`Could not read ${file.name}: ${error}`));
+            e.target.value = '';
+          }}
+        />
+        {importMessage && <p className='mt-2 text-sm text-gray-600'>{importMessage}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default PuzzleTrainer;
@@ -0,0 +1,129 @@
+import React, { useState } from 'react';
+import { Chessboard } from 'react-chessboard';
+import { Chess } from 'chess.js';
+import { Button } from './ui/button';
+import {
+  ReviewCard, ReviewQuality, getDueCards, getNextDueDate, gradeReviewCard,
+  loadReviewCards, removeReviewCard
+} from '../lib/review';
+import { promotionHandler } from '../lib/game';
+
+// Answers given quickly on the first try count as perfect recall
+const FAST_ANSWER_MS = 10000;
+
+const sourceLabels: Record<ReviewCard['source'], string> = {
+  opening: 'Opening',
+  blunder: 'Blunder',
+};
+
+const ReviewSession: React.FC = () => {
+  const [cards, setCards] = useState<ReviewCard[]>(loadReviewCards);
+  const [queue, setQueue] = useState<ReviewCard[]>(() => getDueCards(loadReviewCards()));
+  const [fen, setFen] = useState<string>(queue[0]?.fen ?? '');
+  const [mistakes, setMistakes] = useState<number>(0);
+  const [shownAt, setShownAt] = useState<number>(Date.now());
+  const [result, setResult] = useState<{ correct: boolean, text: string } | null>(null);
+  const [reviewed, setReviewed] = useState<number>(0);
+
+  const current = queue[0];
+
+  const showNext = () => {
+    const remaining = queue.slice(1);
+    setQueue(remaining);
+    setFen(remaining[0]?.fen ?? '');
+    setMistakes(0);
+    setResult(null);
+    setShownAt(Date.now());
+  };
+
+  const grade = (quality: ReviewQuality) => {
+    setCards(gradeReviewCard(current.id, quality));
+    setReviewed(prev => prev + 1);
+  };
+
+  const onDrop = (sourceSquare: string, targetSquare: string, promotion?: string): boolean => {
+    if (!current || result) return false;
+
+    const game = new Chess(current.fen);
+    let san: string;
+    try {
+      san = game.move({ from: sourceSquare, to: targetSquare, promotion }).san;
+    } catch (e) {
+      return false;
+    }
+
+    if (current.answers.includes(san)) {
+      const quality: ReviewQuality = mistakes > 0 ? 3 : Date.now() - shownAt < FAST_ANSWER_MS ? 5 : 4;
+      grade(quality);
+      setFen(game.fen());
+      setResult({ correct: true, text: `Correct! ${san}${current.explanation ? ` - ${current.explanation}` : ''}` });
+      return true;
+    }
+
+    if (mistakes === 0) {
+      setMistakes(1);
+      setResult(null);
+      return false;
+    }
+
+    grade(1);
+    setResult({
+      correct: false,
+      text: `The answer was ${current.answers.join(' or ')}.${current.explanation ? ` ${current.explanation}` : ''}`,
+    });
+    return false;
+  };
+
+  const nextDue = getNextDueDate(cards);
+
+  return (
+    <div className='flex flex-col items-center p-4 w-1/2 mb-4'>
+      <h1 className='text-2xl font-bold mb-4'>Daily Review</h1>
+      <p className='mb-4'>
+        {queue.length} due - {reviewed} reviewed today - {cards.length} positions in total
+      </p>
+      {current ? (
+        <>
+          <p className='mb-2 font-semibold'>
+            {sourceLabels[current.source]}: {current.title}
+          </p>
+          <p className='mb-4'>
+            Find the best move for {new Chess(current.fen).turn() === 'w' ? 'White' : 'Black'}
+          </p>
+          {mistakes > 0 && !result && (
+            <div className='mb-4 p-2 rounded bg-yellow-100 text-yellow-700'>Not quite - try once more.</div>
+          )}
+          {result && (
+            <div className={`mb-4 p-2 rounded ${result.correct ? 'bg-green-100 text-green-700' : 'bg-red-100 text-red-700'}`}>
+              {result.text}
+            </div>
+          )}
+          <Chessboard
+            position={fen}
+            onPieceDrop={onDrop}
+            onPromotionPieceSelect={promotionHandler(onDrop)}
+            boardOrientation={new Chess(current.fen).turn() === 'w' ? 'white' : 'black'}
+          />
+          <div className='flex space-x-4 mt-4'>
+            <Button onClick={showNext} disabled={!result}>Next Position</Button>
+            <Button
+              onClick={() => {
+                setCards(removeReviewCard(current.id));
+                showNext();
+              }}
+            >
+              Remove Position
+            </Button>
+          </div>
+        </>
+      ) : (
+        <p>
+          Nothing left to review today.
+          {nextDue ? ` Next review: ${nextDue.toLocaleDateString()}.` : ' Mistakes from your games and drills will show up here.'}
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default ReviewSession;
@@ -0,0 +1,160 @@
+import { Chess, Color } from 'chess.js';
+import { EngineCancelledError, uciToMove } from './engine';
+import {
+  MoveClassification, PositionEval, evaluateMove, evaluatePosition, scoreToCp
+} from './evaluation';
+
+export interface AnalyzedMove {
+  ply: number;
+  san: string;
+  uci: string;
+  color: Color;
+  fenBefore: string;
+  fenAfter: string;
+  classification: MoveClassification;
+  loss: number;
+  // The engine's preferred move in SAN, if it differs from the played one
+  bestSan?: string;
+  accuracy: number;
+  // Change in the mover's winning chances, in percentage points
+  swing: number;
+}
+
+export interface PlayerSummary {
+  accuracy: number;
+  averageLoss: number;
+  counts: Record<MoveClassification, number>;
+}
+
+export interface GameReport {
+  // fens[0] is the starting position, fens[n] the one after ply n
+  fens: string[];
+  evaluations: PositionEval[];
+  moves: AnalyzedMove[];
+  players: Record<Color, PlayerSummary>;
+  turningPoints: AnalyzedMove[];
+}
+
+const TURNING_POINT_SWING = 15;
+const MAX_TURNING_POINTS = 5;
+
+// Lichess-style winning chances for White, 0-100
+export const winChance = ({ score }: Pick<PositionEval, 'score'>): number => {
+  const cp = Math.max(-1000, Math.min(1000, scoreToCp(score)));
+  return 50 + 50 * (2 / (1 + Math.exp(-0.00368208 * cp)) - 1);
+};
+
+const moveAccuracy = (winBefore: number, winAfter: number): number => {
+  const accuracy = 103.1668 * Math.exp(-0.04354 * Math.max(0, winBefore - winAfter)) - 3.1669;
+  return Math.max(0, Math.min(100, accuracy));
+};
+
+const emptyCounts = (): Record<MoveClassification, number> => ({
+  best: 0, excellent: 0, good: 0, inaccuracy: 0, mistake: 0, blunder: 0,
+});
+
+const summarize = (moves: AnalyzedMove[]): PlayerSummary => {
+  const counts = emptyCounts();
+  moves.forEach(move => counts[move.classification]++);
+  const average = (values: number[]) =>
+    values.length ? values.reduce((sum, value) => sum + value, 0) / values.length : 0;
+
+  return {
+    accuracy: moves.length ? average(moves.map(move => move.accuracy)) : 100,
+    averageLoss: average(moves.map(move => move.loss)),
+    counts,
+  };
+};
+
+export const replayMoves = (startFen: string, sans: string[]) => {
+  const game = new Chess(startFen);
+  const fens = [game.fen()];
+  const moves = sans.map(san => {
+    const move = game.move(san);
+    fens.push(game.fen());
+    return move;
+  });
+  return { fens, moves };
+};
+
+export const moveLabel = (move: Pick<AnalyzedMove, 'fenBefore' | 'color' | 'san'>) =>
+  `${move.fenBefore.split(' ')[5]}${move.color === 'w' ? '.' : '...'} ${move.san}`;
+
+export const buildReport = (startFen: string, sans: string[], evaluations: PositionEval[]): GameReport => {
+  const { fens, moves: played } = replayMoves(startFen, sans);
+
+  const moves = played.map((move, index): AnalyzedMove => {
+    const before = evaluations[index];
+    const after = evaluations[index + 1];
+    const { classification, loss } = evaluateMove(before, after, move.color, move.lan);
+    const sign = move.color === 'w' ? 1 : -1;
+    const winBefore = 50 + sign * (winChance(before) - 50);
+    const winAfter = 50 + sign * (winChance(after) - 50);
+    const bestSan = before.bestMove && before.bestMove !== move.lan
+      ? new Chess(move.before).move(uciToMove(before.bestMove)).san
+      : undefined;
+
+    return {
+      ply: index + 1,
+      san: move.san,
+      uci: move.lan,
+      color: move.color,
+      fenBefore: move.before,
+      fenAfter: move.after,
+      classification,
+      loss,
+      bestSan,
+      accuracy: moveAccuracy(winBefore, winAfter),
+      swing: winAfter - winBefore,
+    };
+  });
+
+  const turningPoints = moves
+    .filter(move => move.classification === 'mistake' || move.classification === 'blunder' ||
+      Math.abs(move.swing) >= TURNING_POINT_SWING)
+    .sort((a, b) => Math.abs(b.swing) - Math.abs(a.swing))
+    .slice(0, MAX_TURNING_POINTS)
+    .sort((a, b) => a.ply - b.ply);
+
+  return {
+    fens,
+    evaluations,
+    moves,
+    players: {
+      w: summarize(moves.filter(move => move.color === 'w')),
+      b: summarize(moves.filter(move => move.color === 'b')),
+    },
+    turningPoints,
+  };
+};
+
+// Runs the engine over every position of the game, one search at a time.
+export const analyzeGame = (
+  startFen: string,
+  sans: string[],
+  { depth = 12, onProgress }: { depth?: number, onProgress?: (done: number, total: number) => void } = {}
+) => {
+  const { fens } = replayMoves(startFen, sans);
+  let cancelCurrent = () => {};
+  let cancelled = false;
+
+  const result = (async () => {
+    const evaluations: PositionEval[] = [];
+    for (const fen of fens) {
+      const job = evaluatePosition(fen, depth);
+      cancelCurrent = job.cancel;
+      evaluations.push(await job.result);
+      if (cancelled) throw new EngineCancelledError();
+      onProgress?.(evaluations.length, fens.length);
+    }
+    return buildReport(startFen, sans, evaluations);
+  })();
+
+  return {
+    result,
+    cancel: () => {
+      cancelled = true;
+      cancelCurrent();
+    },
+  };
+};
@@ -0,0 +1,102 @@
+import { Chess, Color, DEFAULT_POSITION, PieceSymbol, SQUARES, Square, validateFen } from 'chess.js';
+import { CASTLING_RIGHTS, CastlingRight, castlingSquares } from './game';
+
+// Pieces as the board names them, e.g. 'wK'
+export type BoardPiece = `${Color}${Uppercase<PieceSymbol>}`;
+export type BoardPieces = Partial<Record<Square, BoardPiece>>;
+
+// Where a position set up in the editor can be sent
+export type EditorTarget = 'match' | 'dojo' | 'multiplayer';
+
+export interface EditorPosition {
+  pieces: BoardPieces;
+  turn: Color;
+  castling: Record<CastlingRight, boolean>;
+  enPassant: Square | null;
+}
+
+export const castlingLabels: Record<CastlingRight, string> = {
+  K: 'White O-O',
+  Q: 'White O-O-O',
+  k: 'Black O-O',
+  q: 'Black O-O-O',
+};
+
+export const SPARE_PIECES: Record<Color, BoardPiece[]> = {
+  w: ['wK', 'wQ', 'wR', 'wB', 'wN', 'wP'],
+  b: ['bK', 'bQ', 'bR', 'bB', 'bN', 'bP'],
+};
+
+export const canCastle = (pieces: BoardPieces, right: CastlingRight): boolean =>
+  castlingSquares[right].every(([square, color, type]) => pieces[square] === `${color}${type.toUpperCase()}`);
+
+// Squares a pawn of the side to move could capture en passant on: the square
+// an enemy pawn just skipped over by moving two squares
+export const enPassantSquares = (pieces: BoardPieces, turn: Color): Square[] => {
+  const [skipped, landed, from] = turn === 'w' ? ['6', '5', '7'] : ['3', '4', '2'];
+  const pawn: BoardPiece = turn === 'w' ? 'bP' : 'wP';
+  return SQUARES.filter(square =>
+    square[1] === skipped &&
+    pieces[`${square[0]}${landed}` as Square] === pawn &&
+    !pieces[square] &&
+    !pieces[`${square[0]}${from}` as Square]
+  );
+};
+
+const placement = (pieces: BoardPieces): string =>
+  ['8', '7', '6', '5', '4', '3', '2', '1'].map(rank => {
+    let row = '';
+    let empty = 0;
+    for (const file of 'abcdefgh') {
+      const piece = pieces[`${file}${rank}` as Square];
+      if (!piece) {
+        empty++;
+        continue;
+      }
+      row += `${empty || ''}${piece[0] === 'w' ? piece[1] : piece[1].toLowerCase()}`;
+      empty = 0;
+    }
+    return row + (empty || '');
+  }).join('/');
+
+// Rights and en passant squares the pieces no longer allow are left out
+export const toFen = (position: EditorPosition): string => {
+  const castling = CASTLING_RIGHTS
+    .filter(right => position.castling[right] && canCastle(position.pieces, right))
+    .join('');
+  const enPassant = position.enPassant && enPassantSquares(position.pieces, position.turn).includes(position.enPassant)
+    ? position.enPassant
+    : '-';
+  return `${placement(position.pieces)} ${position.turn} ${castling || '-'} ${enPassant} 0 1`;
+};
+
+// Reads a pasted FEN, or returns chess.js' reason for rejecting it.
+// Move counters may be left off, as in EPD.
+export const fromFen = (text: string): EditorPosition | string => {
+  const fields = text.trim().split(/\s+/);
+  const fen = fields.length === 4 ? `${fields.join(' ')} 0 1` : fields.join(' ');
+  const check = validateFen(fen);
+  if (!check.ok) return check.error ?? 'Invalid FEN';
+
+  const game = new Chess(fen);
+  const pieces: BoardPieces = {};
+  game.board().flat().forEach(piece => {
+    if (piece) pieces[piece.square] = `${piece.color}${piece.type.toUpperCase()}` as BoardPiece;
+  });
+  const [, turn, castling, enPassant] = fen.split(' ');
+  return {
+    pieces,
+    turn: turn as Color,
+    castling: { K: castling.includes('K'), Q: castling.includes('Q'), k: castling.includes('k'), q: castling.includes('q') },
+    enPassant: enPassant === '-' ? null : enPassant as Square,
+  };
+};
+
+export const startingPosition = (): EditorPosition => fromFen(DEFAULT_POSITION) as EditorPosition;
+
+export const emptyPosition = (): EditorPosition => ({
+  pieces: {},
+  turn: 'w',
+  castling: { K: false, Q: false, k: false, q: false },
+  enPassant: null,
+});
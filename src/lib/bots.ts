@@ -0,0 +1,195 @@
+import { Chess } from 'chess.js';
+import { EngineInfo, getEngine, uciToMove } from './engine';
+import { scoreToCp } from './evaluation';
+import { loadJSON, saveJSON } from './storage';
+
+export type BotStyle = 'balanced' | 'aggressive' | 'solid';
+export type PersonalityId = 'sensei' | 'tiger' | 'turtle' | 'grasshopper';
+
+export interface BotLevel {
+  level: number;
+  label: string;
+  skillLevel: number;
+  depth: number;
+  movetime: number;
+  // Chance of deliberately playing a weaker candidate move
+  inaccuracy: number;
+  // Largest centipawn loss a deliberate inaccuracy may cost
+  maxLoss: number;
+}
+
+export interface BotPersonality {
+  id: PersonalityId;
+  name: string;
+  description: string;
+  style: BotStyle;
+  defaultLevel: number;
+  inaccuracyBonus: number;
+}
+
+export interface BotSettings {
+  personality: PersonalityId;
+  level: number;
+}
+
+export const botLevels: BotLevel[] = [
+  { level: 1, label: 'Novice', skillLevel: 0, depth: 1, movetime: 50, inaccuracy: 0.5, maxLoss: 600 },
+  { level: 2, label: 'Beginner', skillLevel: 3, depth: 2, movetime: 100, inaccuracy: 0.35, maxLoss: 400 },
+  { level: 3, label: 'Casual', skillLevel: 6, depth: 4, movetime: 200, inaccuracy: 0.25, maxLoss: 300 },
+  { level: 4, label: 'Club', skillLevel: 9, depth: 6, movetime: 300, inaccuracy: 0.15, maxLoss: 200 },
+  { level: 5, label: 'Strong Club', skillLevel: 12, depth: 8, movetime: 500, inaccuracy: 0.1, maxLoss: 150 },
+  { level: 6, label: 'Expert', skillLevel: 15, depth: 10, movetime: 800, inaccuracy: 0.05, maxLoss: 100 },
+  { level: 7, label: 'Master', skillLevel: 18, depth: 12, movetime: 1000, inaccuracy: 0.02, maxLoss: 60 },
+  { level: 8, label: 'Full Strength', skillLevel: 20, depth: 15, movetime: 1500, inaccuracy: 0, maxLoss: 0 },
+];
+
+export const botPersonalities: Record<PersonalityId, BotPersonality> = {
+  sensei: {
+    id: 'sensei',
+    name: 'Sensei',
+    description: 'Balanced play that simply looks for the best move.',
+    style: 'balanced',
+    defaultLevel: 5,
+    inaccuracyBonus: 0,
+  },
+  tiger: {
+    id: 'tiger',
+    name: 'Tiger',
+    description: 'Aggressive: prefers captures, checks and attacking the king.',
+    style: 'aggressive',
+    defaultLevel: 4,
+    inaccuracyBonus: 0.05,
+  },
+  turtle: {
+    id: 'turtle',
+    name: 'Turtle',
+    description: 'Solid: castles early, develops quietly and avoids loosening pawn moves.',
+    style: 'solid',
+    defaultLevel: 4,
+    inaccuracyBonus: 0,
+  },
+  grasshopper: {
+    id: 'grasshopper',
+    name: 'Grasshopper',
+    description: 'Beginner: still learning, and drops material now and then.',
+    style: 'balanced',
+    defaultLevel: 1,
+    inaccuracyBonus: 0.15,
+  },
+};
+
+// Number of engine lines the bot chooses between
+const CANDIDATE_LINES = 4;
+const STORAGE_KEY = 'bot-settings';
+
+export const defaultBotSettings: BotSettings = { personality: 'sensei', level: 5 };
+
+export const getBotLevel = (level: number): BotLevel =>
+  botLevels.find(entry => entry.level === level) ?? botLevels[botLevels.length - 1];
+
+export const loadBotSettings = (): BotSettings => {
+  const stored = loadJSON<Partial<BotSettings>>(STORAGE_KEY, {});
+  return {
+    personality: stored.personality && stored.personality in botPersonalities
+      ? stored.personality
+      : defaultBotSettings.personality,
+    level: botLevels.some(entry => entry.level === stored.level)
+      ? stored.level as number
+      : defaultBotSettings.level,
+  };
+};
+
+export const saveBotSettings = (settings: BotSettings) => saveJSON(STORAGE_KEY, settings);
+
+const styleBonus = (fen: string, uci: string, style: BotStyle): number => {
+  if (style === 'balanced') return 0;
+
+  const game = new Chess(fen);
+  const move = game.move(uciToMove(uci));
+  let bonus = 0;
+
+  if (style === 'aggressive') {
+    if (move.captured) bonus += 30;
+    if (game.inCheck()) bonus += 40;
+    if (move.piece !== 'p' && move.piece !== 'k') {
+      const advance = move.color === 'w' ? Number(move.to[1]) - Number(move.from[1]) : Number(move.from[1]) - Number(move.to[1]);
+      if (advance > 0) bonus += 10;
+    }
+  } else {
+    if (move.flags.includes('k') || move.flags.includes('q')) bonus += 40;
+    if ((move.piece === 'n' || move.piece === 'b') && !move.captured) bonus += 15;
+    if (move.piece === 'p' && !move.captured && 'fgh'.includes(move.from[0])) bonus -= 25;
+  }
+
+  return bonus;
+};
+
+// Stockfish's Skill Level only weakens the bestmove it emits; the MultiPV lines
+// stay full strength. So bestMove is the bot's own pick, and the lines are the
+// alternatives that inaccuracies and style choose from.
+export const chooseBotMove = (
+  fen: string,
+  bestMove: string,
+  candidates: EngineInfo[],
+  settings: BotSettings,
+  random: () => number = Math.random
+): string => {
+  const level = getBotLevel(settings.level);
+  const personality = botPersonalities[settings.personality];
+  const ranked = candidates
+    .filter(info => info.pv.length > 0)
+    .map(info => ({ move: info.pv[0], score: scoreToCp(info.score) }))
+    .sort((a, b) => b.score - a.score);
+
+  if (ranked.length === 0) return bestMove;
+
+  // Skill Level picks among the engine's lines, but assume the worst if it went elsewhere
+  const chosen = ranked.find(candidate => candidate.move === bestMove)
+    ?? { move: bestMove, score: ranked[ranked.length - 1].score };
+  // Only moves no better than the bot's pick, so neither inaccuracies nor style
+  // hand back the strength Skill Level took away
+  const weakerBy = (limit: number) => ranked.filter(candidate =>
+    candidate.move !== chosen.move && candidate.score <= chosen.score && chosen.score - candidate.score <= limit);
+  const playable = weakerBy(level.maxLoss);
+
+  const inaccuracy = Math.min(level.inaccuracy + personality.inaccuracyBonus, 0.9);
+  if (level.maxLoss > 0 && playable.length > 0 && random() < inaccuracy) {
+    return playable[Math.floor(random() * playable.length)].move;
+  }
+
+  if (personality.style === 'balanced') return chosen.move;
+
+  // Style only chooses between moves that are close in value to the bot's pick
+  const closeEnough = [chosen, ...weakerBy(50)];
+  return closeEnough
+    .map(candidate => ({ ...candidate, score: candidate.score + styleBonus(fen, candidate.move, personality.style) }))
+    .sort((a, b) => b.score - a.score)[0].move;
+};
+
+export const requestBotMove = (fen: string, settings: BotSettings) => {
+  const level = getBotLevel(settings.level);
+  const search = getEngine().search({
+    fen,
+    depth: level.depth,
+    movetime: level.movetime,
+    options: { 'Skill Level': level.skillLevel, MultiPV: CANDIDATE_LINES },
+  });
+
+  const move = (async () => {
+    // Keep only the lines from the latest search iteration
+    const latest = new Map<number, EngineInfo>();
+    let depth = 0;
+    for await (const info of search) {
+      if (info.bound) continue;
+      if (info.multipv === 1 && info.depth > depth) {
+        depth = info.depth;
+        latest.clear();
+      }
+      latest.set(info.multipv, info);
+    }
+    const { move: bestMove } = await search.bestMove;
+    return chooseBotMove(fen, bestMove, [...latest.values()], settings);
+  })();
+
+  return { move, cancel: search.cancel };
+};
@@ -0,0 +1,64 @@
+export type ClockColor = 'white' | 'black';
+export type TimeControlCategory = 'bullet' | 'blitz' | 'rapid' | 'classical';
+
+// All values in seconds. `increment` is added after every move (Fischer);
+// `delay` refunds up to that much of the time spent on a move (Bronstein).
+export interface TimeControl {
+  initial: number;
+  increment: number;
+  delay: number;
+}
+
+// Remaining times in milliseconds, as of when the server sent them
+export interface ClockState {
+  timeControl: TimeControl;
+  white: number;
+  black: number;
+  running: ClockColor | null;
+}
+
+export const timeControlPresets: { name: string, timeControl: TimeControl | null }[] = [
+  { name: 'Untimed', timeControl: null },
+  { name: '1+0', timeControl: { initial: 60, increment: 0, delay: 0 } },
+  { name: '2+1', timeControl: { initial: 120, increment: 1, delay: 0 } },
+  { name: '3+0', timeControl: { initial: 180, increment: 0, delay: 0 } },
+  { name: '3+2', timeControl: { initial: 180, increment: 2, delay: 0 } },
+  { name: '5+0', timeControl: { initial: 300, increment: 0, delay: 0 } },
+  { name: '5 d3', timeControl: { initial: 300, increment: 0, delay: 3 } },
+  { name: '10+0', timeControl: { initial: 600, increment: 0, delay: 0 } },
+  { name: '10+5', timeControl: { initial: 600, increment: 5, delay: 0 } },
+  { name: '15+10', timeControl: { initial: 900, increment: 10, delay: 0 } },
+  { name: '30+0', timeControl: { initial: 1800, increment: 0, delay: 0 } },
+];
+
+// Same buckets as Lichess: estimated game length assuming 40 moves per side
+export const timeControlCategory = (timeControl: TimeControl): TimeControlCategory => {
+  const estimate = timeControl.initial + 40 * (timeControl.increment + timeControl.delay);
+  if (estimate < 180) return 'bullet';
+  if (estimate < 480) return 'blitz';
+  if (estimate < 1500) return 'rapid';
+  return 'classical';
+};
+
+export const formatTimeControl = (timeControl: TimeControl | null): string => {
+  if (!timeControl) return 'Untimed';
+  const minutes = timeControl.initial / 60;
+  const base = Number.isInteger(minutes) ? String(minutes) : minutes.toFixed(1);
+  if (timeControl.delay) return `${base} d${timeControl.delay}`;
+  return `${base}+${timeControl.increment}`;
+};
+
+// m:ss, with tenths once under ten seconds
+export const formatClock = (ms: number): string => {
+  const clamped = Math.max(0, ms);
+  if (clamped < 10000) return `0:0${(Math.floor(clamped / 100) / 10).toFixed(1)}`;
+  const totalSeconds = Math.floor(clamped / 1000);
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = String(totalSeconds % 60).padStart(2, '0');
+  return hours ? `${hours}:${String(minutes).padStart(2, '0')}:${seconds}` : `${minutes}:${seconds}`;
+};
+
+// The running side's time, counted down locally since the snapshot arrived
+export const remainingTime = (clock: ClockState, color: ClockColor, receivedAt: number, now: number = Date.now()) =>
+  Math.max(0, clock[color] - (clock.running === color ? now - receivedAt : 0));
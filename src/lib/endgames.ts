@@ -0,0 +1,163 @@
+import { Chess, Color } from 'chess.js';
+import { GameSocket } from './multiplayer';
+import { TABLEBASE_TIMEOUT_MS, TablebaseResult } from './protocol';
+import { loadJSON, saveJSON } from './storage';
+
+export type EndgameCategory = 'Basic mates' | 'Pawn endings' | 'Rook endings';
+
+export interface EndgameGoal {
+  result: 'win' | 'draw';
+  // Win: mate within this many of the student's moves. Draw: survive this many.
+  moves: number;
+}
+
+// The student always plays the side to move in `fen`
+export interface Endgame {
+  id: string;
+  title: string;
+  category: EndgameCategory;
+  fen: string;
+  goal: EndgameGoal;
+  description: string;
+}
+
+export type EndgameStatus = 'playing' | 'success' | 'failure';
+
+export interface EndgameCheck {
+  status: EndgameStatus;
+  // Why the drill ended, for display
+  reason?: string;
+}
+
+export interface EndgameProgress {
+  attempts: number;
+  successes: number;
+}
+
+const PROGRESS_KEY = 'endgame-progress';
+
+export const endgames: Endgame[] = [
+  {
+    id: 'kqk',
+    title: 'Queen and king against king',
+    category: 'Basic mates',
+    fen: '8/8/8/4k3/8/8/8/4K2Q w - - 0 1',
+    goal: { result: 'win', moves: 10 },
+    description: 'Use the queen to shrink the box around the king, then bring your own king up. Watch out for stalemate.',
+  },
+  {
+    id: 'krk',
+    title: 'Rook and king against king',
+    category: 'Basic mates',
+    fen: '8/8/8/4k3/8/8/8/R3K3 w - - 0 1',
+    goal: { result: 'win', moves: 16 },
+    description: 'Cut the king off with the rook, take the opposition with your king and push the defender to the edge.',
+  },
+  {
+    id: 'kpk-win',
+    title: 'King in front of the pawn',
+    category: 'Pawn endings',
+    fen: '4k3/8/4K3/4P3/8/8/8/8 w - - 0 1',
+    goal: { result: 'win', moves: 15 },
+    description: 'With your king on the sixth rank in front of the pawn, the pawn queens whoever is to move. Then mate.',
+  },
+  {
+    id: 'kpk-draw',
+    title: 'Holding the opposition',
+    category: 'Pawn endings',
+    fen: '4k3/8/8/4K3/4P3/8/8/8 b - - 0 1',
+    goal: { result: 'draw', moves: 20 },
+    description: 'Stay in front of the pawn and take the opposition whenever the white king comes forward.',
+  },
+  {
+    id: 'lucena',
+    title: 'Lucena position',
+    category: 'Rook endings',
+    fen: '1K1k4/1P6/8/8/8/8/r7/2R5 w - - 0 1',
+    goal: { result: 'win', moves: 40 },
+    description: 'Cut the black king off, bring your rook to the fourth rank and build a bridge against the checks.',
+  },
+  {
+    id: 'philidor',
+    title: 'Philidor position',
+    category: 'Rook endings',
+    fen: '4k3/R7/6r1/3KP3/8/8/8/8 b - - 0 1',
+    goal: { result: 'draw', moves: 25 },
+    description: 'Keep your rook on the third rank until the pawn advances, then check the white king from behind.',
+  },
+];
+
+export const studentColor = (endgame: Endgame): Color => new Chess(endgame.fen).turn();
+
+export const describeGoal = (endgame: Endgame): string => {
+  const side = studentColor(endgame) === 'w' ? 'White' : 'Black';
+  return endgame.goal.result === 'win'
+    ? `${side} to play and mate within ${endgame.goal.moves} moves`
+    : `${side} to play and hold the draw for ${endgame.goal.moves} moves`;
+};
+
+const drawReason = (game: Chess): string => {
+  if (game.isStalemate()) return 'Stalemate';
+  if (game.isInsufficientMaterial()) return 'Not enough material left to mate';
+  if (game.isThreefoldRepetition()) return 'Draw by repetition';
+  return 'Draw by the fifty-move rule';
+};
+
+// Judges the drill so far. `tablebase` is a probe of the current position,
+// which lets a thrown-away result fail straight away instead of at the move limit.
+export const checkEndgame = (endgame: Endgame, game: Chess, tablebase: TablebaseResult | null = null): EndgameCheck => {
+  const student = studentColor(endgame);
+  const moves = game.history({ verbose: true }).filter(move => move.color === student).length;
+  const { result, moves: limit } = endgame.goal;
+
+  if (game.isCheckmate()) {
+    return game.turn() === student
+      ? { status: 'failure', reason: 'You were checkmated' }
+      : { status: 'success', reason: `Checkmate in ${moves} move${moves === 1 ? '' : 's'}` };
+  }
+  if (game.isGameOver()) {
+    return result === 'draw'
+      ? { status: 'success', reason: `${drawReason(game)}: you held the draw` }
+      : { status: 'failure', reason: `${drawReason(game)}: the win slipped away` };
+  }
+
+  const outcome = tablebase && (game.turn() === student ? tablebase.wdl
+    : tablebase.wdl === 'win' ? 'loss' : tablebase.wdl === 'loss' ? 'win' : 'draw');
+  if (result === 'win' && outcome && outcome !== 'win') {
+    return { status: 'failure', reason: 'The tablebase says the position is no longer won' };
+  }
+  if (result === 'draw' && outcome === 'loss') {
+    return { status: 'failure', reason: 'The tablebase says the position is now lost' };
+  }
+
+  if (result === 'win' && moves >= limit) {
+    return { status: 'failure', reason: `No mate within ${limit} moves` };
+  }
+  // The engine's reply to the last move could still have been mate
+  if (result === 'draw' && moves >= limit && game.turn() === student) {
+    return { status: 'success', reason: `You held the position for ${limit} moves` };
+  }
+  return { status: 'playing' };
+};
+
+// Resolves to null when the server is unreachable, slow or has no tables
+export const probeTablebase = (socket: GameSocket | null, fen: string): Promise<TablebaseResult | null> =>
+  new Promise(resolve => {
+    if (!socket?.connected) {
+      resolve(null);
+      return;
+    }
+    socket.timeout(TABLEBASE_TIMEOUT_MS).emit('probeTablebase', fen, (error: Error | null, result: TablebaseResult | null) =>
+      resolve(error ? null : result));
+  });
+
+export const loadEndgameProgress = (): Record<string, EndgameProgress> =>
+  loadJSON<Record<string, EndgameProgress>>(PROGRESS_KEY, {});
+
+export const recordEndgameAttempt = (id: string, success: boolean): Record<string, EndgameProgress> => {
+  const progress = loadEndgameProgress();
+  const current = progress[id] ?? { attempts: 0, successes: 0 };
+  const next = { ...progress, [id]: { attempts: current.attempts + 1, successes: current.successes + (success ? 1 : 0) } };
+  saveJSON(PROGRESS_KEY, next);
+  return next;
+};
@@ -0,0 +1,315 @@
+// Shared Stockfish service. Every mode talks to the same Worker through a
+// queue so that one search's `info`/`bestmove` lines can never be read by
+// another caller.
+
+export type EngineScore = { type: 'cp' | 'mate'; value: number };
+
+export interface EngineInfo {
+  depth: number;
+  seldepth?: number;
+  multipv: number;
+  score: EngineScore;
+  bound?: 'lower' | 'upper';
+  nodes?: number;
+  nps?: number;
+  time?: number;
+  pv: string[];
+}
+
+export interface BestMove {
+  move: string;
+  ponder?: string;
+}
+
+export interface SearchRequest {
+  fen: string;
+  depth?: number;
+  movetime?: number;
+  infinite?: boolean;
+  // UCI options applied for this search only, e.g. { 'Skill Level': 5 }
+  options?: Record<string, string | number | boolean>;
+}
+
+export interface SearchHandle extends AsyncIterable<EngineInfo> {
+  bestMove: Promise<BestMove>;
+  // Ends the search early and resolves bestMove with whatever the engine has.
+  stop: () => void;
+  // Ends the search and rejects bestMove with EngineCancelledError.
+  cancel: () => void;
+}
+
+export class EngineCancelledError extends Error {
+  constructor() {
+    super('Engine search cancelled');
+    this.name = 'EngineCancelledError';
+  }
+}
+
+export const isCancelled = (error: unknown): error is EngineCancelledError =>
+  error instanceof EngineCancelledError;
+
+const DEFAULT_OPTIONS: Record<string, string> = {
+  'Skill Level': '20',
+  MultiPV: '1',
+};
+
+export const parseInfo = (line: string): EngineInfo | null => {
+  if (!line.startsWith('info ') || !line.includes(' score ') || !line.includes(' pv ')) {
+    return null;
+  }
+
+  const tokens = line.split(' ');
+  const info: EngineInfo = { depth: 0, multipv: 1, score: { type: 'cp', value: 0 }, pv: [] };
+
+  for (let i = 1; i < tokens.length; i++) {
+    switch (tokens[i]) {
+      case 'depth':
+        info.depth = parseInt(tokens[++i]);
+        break;
+      case 'seldepth':
+        info.seldepth = parseInt(tokens[++i]);
+        break;
+      case 'multipv':
+        info.multipv = parseInt(tokens[++i]);
+        break;
+      case 'nodes':
+        info.nodes = parseInt(tokens[++i]);
+        break;
+      case 'nps':
+        info.nps = parseInt(tokens[++i]);
+        break;
+      case 'time':
+        info.time = parseInt(tokens[++i]);
+        break;
+      case 'score':
+        info.score = { type: tokens[++i] === 'mate' ? 'mate' : 'cp', value: parseInt(tokens[++i]) };
+        if (tokens[i + 1] === 'lowerbound' || tokens[i + 1] === 'upperbound') {
+          info.bound = tokens[++i] === 'lowerbound' ? 'lower' : 'upper';
+        }
+        break;
+      case 'pv':
+        info.pv = tokens.slice(i + 1);
+        i = tokens.length;
+        break;
+    }
+  }
+
+  return info;
+};
+
+export const uciToMove = (uci: string) => ({
+  from: uci.slice(0, 2),
+  to: uci.slice(2, 4),
+  promotion: uci.length > 4 ? uci[4] : undefined,
+});
+
+class InfoStream implements AsyncIterableIterator<EngineInfo> {
+  private buffer: EngineInfo[] = [];
+  private waiting: ((result: IteratorResult<EngineInfo>) => void)[] = [];
+  private closed = false;
+
+  push(info: EngineInfo) {
+    if (this.closed) return;
+    const waiter = this.waiting.shift();
+    if (waiter) {
+      waiter({ value: info, done: false });
+    } else {
+      this.buffer.push(info);
+    }
+  }
+
+  close() {
+    this.closed = true;
+    this.waiting.forEach(waiter => waiter({ value: undefined, done: true }));
+    this.waiting = [];
+  }
+
+  next(): Promise<IteratorResult<EngineInfo>> {
+    const info = this.buffer.shift();
+    if (info) return Promise.resolve({ value: info, done: false });
+    if (this.closed) return Promise.resolve({ value: undefined, done: true });
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  return(): Promise<IteratorResult<EngineInfo>> {
+    this.buffer = [];
+    this.close();
+    return Promise.resolve({ value: undefined, done: true });
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+}
+
+interface Job {
+  request: SearchRequest;
+  infos: InfoStream;
+  resolve: (bestMove: BestMove) => void;
+  reject: (error: Error) => void;
+  started: boolean;
+  stopped: boolean;
+  cancelled: boolean;
+}
+
+export class StockfishEngine {
+  private worker: Worker;
+  private ready: Promise<void>;
+  private queue: Job[] = [];
+  private active: Job | null = null;
+  private appliedOptions: Record<string, string> = {};
+  private waiters: { prefix: string, resolve: () => void }[] = [];
+
+  constructor(scriptUrl = '/stockfish.js') {
+    this.worker = new Worker(scriptUrl);
+    this.worker.addEventListener('message', (event: MessageEvent) => {
+      if (typeof event.data !== 'string') return;
+      event.data.split('\n').forEach(line => this.handleLine(line.trim()));
+    });
+    this.send('uci');
+    this.ready = this.waitFor('uciok');
+  }
+
+  search(request: SearchRequest): SearchHandle {
+    const infos = new InfoStream();
+    let job!: Job;
+    const bestMove = new Promise<BestMove>((resolve, reject) => {
+      job = { request, infos, resolve, reject, started: false, stopped: false, cancelled: false };
+    });
+    // Callers that only read the info stream should not trip unhandled rejections
+    bestMove.catch(() => undefined);
+
+    this.queue.push(job);
+    this.pump();
+
+    return {
+      bestMove,
+      stop: () => this.stopJob(job, false),
+      cancel: () => this.stopJob(job, true),
+      [Symbol.asyncIterator]: () => infos,
+    };
+  }
+
+  // Cancels the running search and everything still queued.
+  cancelAll() {
+    [...this.queue].forEach(job => this.stopJob(job, true));
+    if (this.active) this.stopJob(this.active, true);
+  }
+
+  terminate() {
+    this.cancelAll();
+    this.worker.terminate();
+  }
+
+  private send(command: string) {
+    this.worker.postMessage(command);
+  }
+
+  private waitFor(prefix: string): Promise<void> {
+    return new Promise(resolve => this.waiters.push({ prefix, resolve }));
+  }
+
+  private handleLine(line: string) {
+    const waiterIndex = this.waiters.findIndex(waiter => line.startsWith(waiter.prefix));
+    if (waiterIndex !== -1) {
+      const [waiter] = this.waiters.splice(waiterIndex, 1);
+      waiter.resolve();
+      return;
+    }
+
+    const job = this.active;
+    if (!job || !job.started) return;
+
+    if (line.startsWith('info')) {
+      const info = parseInfo(line);
+      if (info) job.infos.push(info);
+    } else if (line.startsWith('bestmove')) {
+      const [, move, , ponder] = line.split(' ');
+      job.infos.close();
+      if (job.cancelled) {
+        job.reject(new EngineCancelledError());
+      } else {
+        job.resolve({ move, ponder });
+      }
+      this.active = null;
+      this.pump();
+    }
+  }
+
+  private stopJob(job: Job, cancel: boolean) {
+    job.stopped = true;
+    if (cancel) {
+      job.cancelled = true;
+      job.infos.return();
+    }
+
+    const queuedIndex = this.queue.indexOf(job);
+    if (queuedIndex !== -1) {
+      this.queue.splice(queuedIndex, 1);
+      job.infos.close();
+      job.reject(new EngineCancelledError());
+      return;
+    }
+
+    // The engine still answers `stop` with a bestmove, which handleLine
+    // consumes before the next search is started.
+    if (this.active === job && job.started) {
+      this.send('stop');
+    }
+  }
+
+  private applyOptions(options: SearchRequest['options'] = {}) {
+    const wanted: Record<string, string> = { ...DEFAULT_OPTIONS };
+    Object.entries(options).forEach(([name, value]) => {
+      wanted[name] = String(value);
+    });
+
+    Object.entries(wanted).forEach(([name, value]) => {
+      if (this.appliedOptions[name] !== value) {
+        this.send(`setoption name ${name} value ${value}`);
+        this.appliedOptions[name] = value;
+      }
+    });
+  }
+
+  private async pump() {
+    if (this.active || this.queue.length === 0) return;
+
+    const job = this.queue.shift()!;
+    this.active = job;
+
+    await this.ready;
+    this.applyOptions(job.request.options);
+    this.send('isready');
+    await this.waitFor('readyok');
+
+    if (job.cancelled) {
+      job.infos.close();
+      job.reject(new EngineCancelledError());
+      this.active = null;
+      this.pump();
+      return;
+    }
+
+    const { fen, depth, movetime, infinite } = job.request;
+    const limits = [
+      depth !== undefined ? `depth ${depth}` : '',
+      movetime !== undefined ? `movetime ${movetime}` : '',
+      infinite ? 'infinite' : '',
+    ].filter(Boolean);
+
+    job.started = true;
+    this.send(`position fen ${fen}`);
+    this.send(`go ${limits.length ? limits.join(' ') : 'depth 15'}`);
+    if (job.stopped) this.send('stop');
+  }
+}
+
+let sharedEngine: StockfishEngine | null = null;
+
+export const getEngine = (): StockfishEngine => {
+  if (!sharedEngine) {
+    sharedEngine = new StockfishEngine();
+  }
+  return sharedEngine;
+};
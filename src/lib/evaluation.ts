@@ -0,0 +1,164 @@
+import { Chess, Color } from 'chess.js';
+import { EngineInfo, EngineScore, getEngine, uciToMove } from './engine';
+
+export type MoveClassification = 'best' | 'excellent' | 'good' | 'inaccuracy' | 'mistake' | 'blunder';
+
+export interface PositionEval {
+  // Always from White's point of view
+  score: EngineScore;
+  bestMove?: string;
+  pv: string[];
+  depth: number;
+}
+
+// One line of a multi-PV analysis
+export interface AnalysisLine {
+  multipv: number;
+  // Always from White's point of view
+  score: EngineScore;
+  depth: number;
+  // UCI
+  pv: string[];
+}
+
+export interface MoveEvaluation {
+  classification: MoveClassification;
+  loss: number;
+}
+
+// Centipawn value used for a forced mate
+export const MATE_CP = 10000;
+// Evaluations beyond this are "completely winning"; losses are capped here so
+// that turning a mate into a won endgame does not count as a huge mistake.
+const LOSS_CAP = 1000;
+
+export const classificationStyles: Record<MoveClassification, { label: string, color: string }> = {
+  best: { label: 'Best', color: 'bg-blue-500' },
+  excellent: { label: 'Excellent', color: 'bg-green-600' },
+  good: { label: 'Good', color: 'bg-green-400' },
+  inaccuracy: { label: 'Inaccuracy', color: 'bg-yellow-400' },
+  mistake: { label: 'Mistake', color: 'bg-orange-500' },
+  blunder: { label: 'Blunder', color: 'bg-red-500' },
+};
+
+const classificationThresholds: [MoveClassification, number][] = [
+  ['excellent', 20],
+  ['good', 50],
+  ['inaccuracy', 100],
+  ['mistake', 300],
+];
+
+// UCI scores are relative to the side to move.
+export const toWhitePerspective = (score: EngineScore, turn: Color): EngineScore => {
+  if (score.type === 'mate' && score.value === 0) {
+    // "mate 0" means the side to move has been mated
+    return { type: 'cp', value: turn === 'w' ? -MATE_CP : MATE_CP };
+  }
+  return turn === 'w' ? score : { type: score.type, value: -score.value };
+};
+
+export const scoreToCp = (score: EngineScore): number =>
+  score.type === 'cp'
+    ? score.value
+    : Math.sign(score.value) * (MATE_CP - Math.abs(score.value));
+
+export const formatScore = (score: EngineScore): string => {
+  if (score.type === 'mate') return `#${score.value}`;
+  if (Math.abs(score.value) >= MATE_CP) return score.value > 0 ? '1-0' : '0-1';
+  return `${score.value > 0 ? '+' : ''}${(score.value / 100).toFixed(2)}`;
+};
+
+export const centipawnLoss = (before: EngineScore, after: EngineScore, mover: Color): number => {
+  const clamp = (cp: number) => Math.max(-LOSS_CAP, Math.min(LOSS_CAP, cp));
+  const beforeCp = clamp(scoreToCp(before));
+  const afterCp = clamp(scoreToCp(after));
+  return Math.max(0, mover === 'w' ? beforeCp - afterCp : afterCp - beforeCp);
+};
+
+export const classifyMove = (loss: number, playedBestMove: boolean): MoveClassification => {
+  if (playedBestMove || loss <= 5) return 'best';
+  const match = classificationThresholds.find(([, limit]) => loss <= limit);
+  return match ? match[0] : 'blunder';
+};
+
+export const evaluateMove = (before: PositionEval, after: PositionEval, mover: Color, uci: string): MoveEvaluation => {
+  const loss = centipawnLoss(before.score, after.score, mover);
+  return { classification: classifyMove(loss, before.bestMove === uci), loss };
+};
+
+// Game-over positions are scored directly; the engine has nothing to search.
+const terminalEvaluation = (game: Chess): PositionEval | null => {
+  if (game.isCheckmate()) {
+    return { score: toWhitePerspective({ type: 'mate', value: 0 }, game.turn()), pv: [], depth: 0 };
+  }
+  if (game.isGameOver()) {
+    return { score: { type: 'cp', value: 0 }, pv: [], depth: 0 };
+  }
+  return null;
+};
+
+// The start of an engine line in SAN. Stops early if the line is illegal in this position.
+export const pvToSan = (fen: string, pv: string[], limit = pv.length): string[] => {
+  const game = new Chess(fen);
+  const sans: string[] = [];
+  for (const uci of pv.slice(0, limit)) {
+    try {
+      sans.push(game.move(uciToMove(uci)).san);
+    } catch (e) {
+      break;
+    }
+  }
+  return sans;
+};
+
+export const evaluatePosition = (fen: string, depth: number) => {
+  const game = new Chess(fen);
+  const terminal = terminalEvaluation(game);
+  if (terminal) {
+    return { result: Promise.resolve(terminal), cancel: () => undefined };
+  }
+
+  const search = getEngine().search({ fen, depth });
+  const result = (async (): Promise<PositionEval> => {
+    let latest: EngineInfo | null = null;
+    for await (const info of search) {
+      if (info.multipv === 1 && !info.bound) latest = info;
+    }
+    const { move } = await search.bestMove;
+    return {
+      score: toWhitePerspective(latest?.score ?? { type: 'cp', value: 0 }, game.turn()),
+      bestMove: move,
+      pv: latest?.pv ?? [move],
+      depth: latest?.depth ?? 0,
+    };
+  })();
+
+  return { result, cancel: search.cancel };
+};
+
+// Runs until cancelled, reporting the best `multiPv` lines, best first, each
+// time the engine finishes a depth. Finished games have nothing to analyse.
+export const analyzePosition = (fen: string, multiPv: number, onUpdate: (lines: AnalysisLine[]) => void) => {
+  const game = new Chess(fen);
+  if (game.isGameOver()) return { cancel: () => undefined };
+
+  // Positions with fewer legal moves than requested get fewer lines
+  const expected = Math.min(multiPv, game.moves().length);
+  const search = getEngine().search({ fen, infinite: true, options: { MultiPV: multiPv } });
+  const lines: AnalysisLine[] = [];
+
+  (async () => {
+    for await (const info of search) {
+      if (info.bound || info.multipv > expected) continue;
+      lines[info.multipv - 1] = {
+        multipv: info.multipv,
+        score: toWhitePerspective(info.score, game.turn()),
+        depth: info.depth,
+        pv: info.pv,
+      };
+      if (info.multipv === expected) onUpdate([...lines]);
+    }
+  })();
+
+  return { cancel: search.cancel };
+};
@@ -0,0 +1,54 @@
+import { Chess, Color, DEFAULT_POSITION, PieceSymbol, Square, validateFen } from 'chess.js';
+
+export type CastlingRight = 'K' | 'Q' | 'k' | 'q';
+
+export const CASTLING_RIGHTS: CastlingRight[] = ['K', 'Q', 'k', 'q'];
+
+// The king and rook a castling right needs on their starting squares
+export const castlingSquares: Record<CastlingRight, [Square, Color, PieceSymbol][]> = {
+  K: [['e1', 'w', 'k'], ['h1', 'w', 'r']],
+  Q: [['e1', 'w', 'k'], ['a1', 'w', 'r']],
+  k: [['e8', 'b', 'k'], ['h8', 'b', 'r']],
+  q: [['e8', 'b', 'k'], ['a8', 'b', 'r']],
+};
+
+export const getStartFen = (game: Chess): string => game.header().FEN ?? DEFAULT_POSITION;
+
+// `new Chess(game.fen())` drops the move list; this keeps it.
+export const cloneGame = (game: Chess): Chess => {
+  const clone = new Chess(getStartFen(game));
+  game.history().forEach(san => clone.move(san));
+  return clone;
+};
+
+// Adapts an onDrop-style handler to the board's promotion dialog, which reports
+// pieces as e.g. 'wN' and calls back without a piece when dismissed.
+export const promotionHandler = (onDrop: (from: string, to: string, promotion: string) => boolean) =>
+  (piece?: string, from?: string, to?: string): boolean =>
+    !!piece && !!from && !!to && onDrop(from, to, piece[1].toLowerCase());
+
+// Why a game cannot start from this position, or null if it can. chess.js
+// checks the FEN itself, kings and pawns; checks, castling rights and
+// finished games are ours. chess.js would happily castle without a rook.
+export const positionError = (fen: string): string | null => {
+  const syntax = validateFen(fen);
+  if (!syntax.ok) return syntax.error ?? 'Invalid FEN';
+
+  // The side that just moved cannot have left its own king in check
+  const [placement, turn, castling] = fen.split(' ');
+  if (new Chess(`${placement} ${turn === 'w' ? 'b' : 'w'} ${castling} - 0 1`).inCheck()) {
+    return 'The side not to move is in check';
+  }
+
+  const game = new Chess(fen);
+  const impossible = CASTLING_RIGHTS.filter(right => castling.includes(right)).find(right =>
+    !castlingSquares[right].every(([square, color, type]) => {
+      // chess.js answers false for an empty square
+      const piece = game.get(square);
+      return Boolean(piece) && piece.color === color && piece.type === type;
+    })
+  );
+  if (impossible) return `Castling right ${impossible} needs the king and rook on their starting squares`;
+  if (game.isGameOver()) return 'The game is already over in this position';
+  return null;
+};
@@ -0,0 +1,77 @@
+// Glicko-2 as described in Glickman's "Example of the Glicko-2 system".
+// Each rated game is treated as its own rating period.
+import type { Rating } from './protocol';
+
+export const DEFAULT_RATING: Rating = { rating: 1500, rd: 350, volatility: 0.06, games: 0 };
+
+// Glicko-2 works on a different scale; this converts between the two
+const SCALE = 173.7178;
+// Constrains how fast volatility changes; 0.3-1.2 is the recommended range
+const TAU = 0.5;
+const CONVERGENCE = 0.000001;
+const MIN_RD = 45;
+const MAX_RD = 350;
+
+const g = (phi: number) => 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+
+const expectedScore = (mu: number, opponentMu: number, opponentPhi: number) => 1 / (1 + Math.exp(-g(opponentPhi) * (mu - opponentMu)));
+
+// Step 5: the new volatility, found with the Illinois algorithm
+const updatedVolatility = (phi: number, sigma: number, variance: number, delta: number) => {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) => {
+    const ex = Math.exp(x);
+    const denominator = phi * phi + variance + ex;
+    return (ex * (delta * delta - phi * phi - variance - ex)) / (2 * denominator * denominator) - (x - a) / (TAU * TAU);
+  };
+
+  let lower = a;
+  let upper: number;
+  if (delta * delta > phi * phi + variance) {
+    upper = Math.log(delta * delta - phi * phi - variance);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k += 1;
+    upper = a - k * TAU;
+  }
+
+  let fLower = f(lower);
+  let fUpper = f(upper);
+  while (Math.abs(upper - lower) > CONVERGENCE) {
+    const next: number = lower + ((lower - upper) * fLower) / (fUpper - fLower);
+    const fNext = f(next);
+    if (fNext * fUpper <= 0) {
+      lower = upper;
+      fLower = fUpper;
+    } else {
+      fLower /= 2;
+    }
+    upper = next;
+    fUpper = fNext;
+  }
+  return Math.exp(lower / 2);
+};
+
+// score is 1 for a win, 0.5 for a draw and 0 for a loss
+export const rateGame = (player: Rating, opponent: Rating, score: number): Rating => {
+  const mu = (player.rating - 1500) / SCALE;
+  const phi = player.rd / SCALE;
+  const opponentMu = (opponent.rating - 1500) / SCALE;
+  const opponentPhi = opponent.rd / SCALE;
+
+  const expected = expectedScore(mu, opponentMu, opponentPhi);
+  const variance = 1 / (g(opponentPhi) ** 2 * expected * (1 - expected));
+  const delta = variance * g(opponentPhi) * (score - expected);
+
+  const volatility = updatedVolatility(phi, player.volatility, variance, delta);
+  const preRatingPhi = Math.sqrt(phi * phi + volatility * volatility);
+  const newPhi = 1 / Math.sqrt(1 / (preRatingPhi * preRatingPhi) + 1 / variance);
+  const newMu = mu + newPhi * newPhi * g(opponentPhi) * (score - expected);
+
+  return {
+    rating: newMu * SCALE + 1500,
+    rd: Math.min(MAX_RD, Math.max(MIN_RD, newPhi * SCALE)),
+    volatility,
+    games: player.games + 1
+  };
+};
@@ -0,0 +1,164 @@
+import { Chess, Color, Move, PieceSymbol, Square } from 'chess.js';
+import { EngineScore, uciToMove } from './engine';
+import { loadJSON, saveJSON } from './storage';
+
+// Each hint gives a little more away than the one before it
+export const HINT_LEVELS = ['piece', 'area', 'theme', 'move'] as const;
+export type HintLevel = typeof HINT_LEVELS[number];
+
+export type HintTheme =
+  | 'mate' | 'promotion' | 'fork' | 'winMaterial' | 'check' | 'capture' | 'castle' | 'develop' | 'quiet';
+
+export interface Hint {
+  from: Square;
+  to: Square;
+  san: string;
+  theme: HintTheme;
+  // The squares around the target, the target included
+  area: Square[];
+  // Moves to mate, when the engine has found a forced one
+  mateIn?: number;
+}
+
+// The deepest hint the student took before playing the move at `ply`, counted from 1 like PGN plies
+export interface HintUsage {
+  ply: number;
+  level: HintLevel;
+}
+
+export interface HintedGame {
+  id: string;
+  date: string;
+  studentColor: Color;
+  opponent: string;
+  // Moves the student has played so far
+  moves: number;
+  hints: HintUsage[];
+  result: string;
+}
+
+const HISTORY_KEY = 'hint-history';
+const MAX_HINTED_GAMES = 200;
+
+const PIECE_VALUES: Record<PieceSymbol, number> = { p: 1, n: 3, b: 3, r: 5, q: 9, k: 100 };
+// Moves in which bringing a minor piece off its home rank counts as development
+const DEVELOPMENT_MOVES = 10;
+
+export const themeDescriptions: Record<HintTheme, string> = {
+  mate: 'There is a checkmate.',
+  promotion: 'A pawn is ready to promote.',
+  fork: 'There is a fork: one piece can attack two targets at once.',
+  winMaterial: 'You can win material.',
+  check: 'A check keeps the initiative.',
+  capture: 'Look at the captures.',
+  castle: 'Think about the safety of your king.',
+  develop: 'Bring another piece into the game.',
+  quiet: 'No tactic here: find a quiet move that improves your position.',
+};
+
+export const hintLabels: Record<HintLevel, string> = {
+  piece: 'Which piece',
+  area: 'Where to',
+  theme: 'The idea',
+  move: 'The move',
+};
+
+// The position with the other side to move, used to ask what a piece attacks
+const withTurn = (game: Chess, turn: Color): Chess => {
+  const fields = game.fen().split(' ');
+  fields[1] = turn;
+  fields[3] = '-';
+  return new Chess(fields.join(' '));
+};
+
+// Pieces the moved piece attacks that the opponent cannot just leave there:
+// the king, anything worth more than the attacker, and anything undefended
+const forkTargets = (after: Chess, move: Move): Square[] => {
+  const attacker = PIECE_VALUES[move.promotion ?? move.piece];
+  return withTurn(after, move.color).moves({ square: move.to, verbose: true })
+    .filter(reply => reply.captured && (
+      PIECE_VALUES[reply.captured] > attacker || !after.isAttacked(reply.to, after.turn())
+    ))
+    .map(reply => reply.to);
+};
+
+const detectTheme = (game: Chess, move: Move, after: Chess, mateIn?: number): HintTheme => {
+  if (after.isCheckmate() || mateIn !== undefined) return 'mate';
+  if (move.promotion) return 'promotion';
+  if (forkTargets(after, move).length >= 2) return 'fork';
+  if (move.captured && (
+    PIECE_VALUES[move.captured] > PIECE_VALUES[move.piece] || !game.isAttacked(move.to, after.turn())
+  )) return 'winMaterial';
+  if (after.isCheck()) return 'check';
+  if (move.captured) return 'capture';
+  if (move.flags.includes('k') || move.flags.includes('q')) return 'castle';
+
+  const homeRank = move.color === 'w' ? '1' : '8';
+  if ((move.piece === 'n' || move.piece === 'b') && move.from[1] === homeRank && game.moveNumber() <= DEVELOPMENT_MOVES) {
+    return 'develop';
+  }
+  return 'quiet';
+};
+
+const areaAround = (square: Square): Square[] => {
+  const file = square.charCodeAt(0);
+  const rank = Number(square[1]);
+  const area: Square[] = [];
+  for (let f = file - 1; f <= file + 1; f++) {
+    for (let r = rank - 1; r <= rank + 1; r++) {
+      if (f >= 97 && f <= 104 && r >= 1 && r <= 8) area.push(`${String.fromCharCode(f)}${r}` as Square);
+    }
+  }
+  return area;
+};
+
+// Everything the ladder can reveal about the engine's best move. `score` is from White's point of view.
+export const createHint = (fen: string, bestMove: string, score?: EngineScore): Hint => {
+  const game = new Chess(fen);
+  const after = new Chess(fen);
+  const move = after.move(uciToMove(bestMove));
+  const moverScore = score && (game.turn() === 'w' ? score.value : -score.value);
+  const mateIn = score?.type === 'mate' && moverScore !== undefined && moverScore > 0 ? moverScore : undefined;
+
+  return {
+    from: move.from,
+    to: move.to,
+    san: move.san,
+    theme: detectTheme(game, move, after, mateIn),
+    area: areaAround(move.to),
+    ...(mateIn !== undefined ? { mateIn } : {}),
+  };
+};
+
+export const describeTheme = (hint: Hint): string =>
+  hint.theme === 'mate' && hint.mateIn && hint.mateIn > 1
+    ? `There is a forced mate in ${hint.mateIn}.`
+    : themeDescriptions[hint.theme];
+
+// Records the deepest level taken for a move; asking again never lowers it
+export const recordHint = (hints: HintUsage[], ply: number, level: HintLevel): HintUsage[] => {
+  const current = hints.find(hint => hint.ply === ply);
+  if (current && HINT_LEVELS.indexOf(current.level) >= HINT_LEVELS.indexOf(level)) return hints;
+  return [...hints.filter(hint => hint.ply !== ply), { ply, level }].sort((a, b) => a.ply - b.ply);
+};
+
+export const loadHintHistory = (): HintedGame[] => loadJSON<HintedGame[]>(HISTORY_KEY, []);
+
+// Saves or updates a game, newest first
+export const saveHintedGame = (game: HintedGame): HintedGame[] => {
+  const history = [game, ...loadHintHistory().filter(entry => entry.id !== game.id)].slice(0, MAX_HINTED_GAMES);
+  saveJSON(HISTORY_KEY, history);
+  return history;
+};
+
+// Share of the student's moves played without any hint, in percent
+export const independence = (game: HintedGame): number =>
+  game.moves === 0 ? 100 : Math.round(100 * Math.max(0, game.moves - game.hints.length) / game.moves);
+
+// PGN comments after each move the student took a hint for
+export const hintComments = (hints: HintUsage[]): Record<number, string> =>
+  Object.fromEntries(hints.map(hint => [hint.ply, `Hint: ${hintLabels[hint.level].toLowerCase()}.`]));
+
+export const hintCounts = (hints: HintUsage[]): Record<HintLevel, number> =>
+  Object.fromEntries(HINT_LEVELS.map(level => [level, hints.filter(hint => hint.level === level).length])) as
+    Record<HintLevel, number>;
@@ -0,0 +1,139 @@
+import { Chess } from 'chess.js';
+
+export const ROOT_ID = 'root';
+
+export interface MoveTreeNode {
+  id: string;
+  san: string;
+  uci: string;
+  // Position after this move; for the root, the starting position
+  fen: string;
+  parentId: string | null;
+  // The first child continues the current line, the rest are variations
+  children: string[];
+  comment?: string;
+}
+
+export interface MoveTree {
+  nodes: Record<string, MoveTreeNode>;
+  nextId: number;
+}
+
+export const createMoveTree = (startFen: string, moves: string[] = []): MoveTree => {
+  let tree: MoveTree = {
+    nodes: {
+      [ROOT_ID]: { id: ROOT_ID, san: '', uci: '', fen: new Chess(startFen).fen(), parentId: null, children: [] },
+    },
+    nextId: 1,
+  };
+  let parentId = ROOT_ID;
+  moves.forEach(san => {
+    const result = addMove(tree, parentId, san);
+    tree = result.tree;
+    parentId = result.nodeId;
+  });
+  return tree;
+};
+
+// Plays `move` after the given node. An existing child with the same move is
+// reused; otherwise the move becomes a new variation (or the continuation if
+// the node had none). Throws on illegal moves, like chess.js.
+export const addMove = (
+  tree: MoveTree,
+  parentId: string,
+  move: string | { from: string, to: string, promotion?: string }
+): { tree: MoveTree, nodeId: string } => {
+  const parent = tree.nodes[parentId];
+  const played = new Chess(parent.fen).move(move);
+
+  const existing = parent.children.find(childId => tree.nodes[childId].san === played.san);
+  if (existing) return { tree, nodeId: existing };
+
+  const nodeId = `n${tree.nextId}`;
+  return {
+    nodeId,
+    tree: {
+      nextId: tree.nextId + 1,
+      nodes: {
+        ...tree.nodes,
+        [parentId]: { ...parent, children: [...parent.children, nodeId] },
+        [nodeId]: { id: nodeId, san: played.san, uci: played.lan, fen: played.after, parentId, children: [] },
+      },
+    },
+  };
+};
+
+export const setComment = (tree: MoveTree, nodeId: string, comment: string): MoveTree => ({
+  ...tree,
+  nodes: { ...tree.nodes, [nodeId]: { ...tree.nodes[nodeId], comment } },
+});
+
+// Nodes from the first move up to and including nodeId.
+export const getPath = (tree: MoveTree, nodeId: string): MoveTreeNode[] => {
+  const path: MoveTreeNode[] = [];
+  let node: MoveTreeNode | undefined = tree.nodes[nodeId];
+  while (node && node.parentId !== null) {
+    path.unshift(node);
+    node = tree.nodes[node.parentId];
+  }
+  return path;
+};
+
+// Follows the first child from nodeId to the end of its line.
+export const getMainline = (tree: MoveTree, fromId: string = ROOT_ID): MoveTreeNode[] => {
+  const line: MoveTreeNode[] = [];
+  let childId = tree.nodes[fromId]?.children[0];
+  while (childId) {
+    line.push(tree.nodes[childId]);
+    childId = tree.nodes[childId].children[0];
+  }
+  return line;
+};
+
+export const getLastMainlineId = (tree: MoveTree, fromId: string = ROOT_ID): string => {
+  const line = getMainline(tree, fromId);
+  return line.length ? line[line.length - 1].id : fromId;
+};
+
+export const isVariation = (tree: MoveTree, nodeId: string): boolean => {
+  const node = tree.nodes[nodeId];
+  return node.parentId !== null && tree.nodes[node.parentId].children[0] !== nodeId;
+};
+
+// Makes the variation the node belongs to the continuation at its branch point.
+export const promoteVariation = (tree: MoveTree, nodeId: string): MoveTree => {
+  const nodes = { ...tree.nodes };
+  let node = nodes[nodeId];
+  while (node.parentId !== null) {
+    const parent = nodes[node.parentId];
+    if (parent.children[0] !== node.id) {
+      nodes[parent.id] = { ...parent, children: [node.id, ...parent.children.filter(id => id !== node.id)] };
+      break;
+    }
+    node = parent;
+  }
+  return { ...tree, nodes };
+};
+
+// Removes the node and everything after it.
+export const deleteNode = (tree: MoveTree, nodeId: string): MoveTree => {
+  const node = tree.nodes[nodeId];
+  if (node.parentId === null) return tree;
+
+  const nodes = { ...tree.nodes };
+  const remove = (id: string) => {
+    nodes[id].children.forEach(remove);
+    delete nodes[id];
+  };
+  remove(nodeId);
+  const parent = nodes[node.parentId];
+  nodes[parent.id] = { ...parent, children: parent.children.filter(id => id !== nodeId) };
+  return { ...tree, nodes };
+};
+
+// A game positioned at nodeId, with the moves leading there as its history.
+export const gameAt = (tree: MoveTree, nodeId: string): Chess => {
+  const game = new Chess(tree.nodes[ROOT_ID].fen);
+  getPath(tree, nodeId).forEach(node => game.move(node.san));
+  return game;
+};
@@ -0,0 +1,88 @@
+import { Socket } from 'socket.io-client';
+import {
+  ClientToServerEvents, GameOver, GameOverReason, MoveRejectReason, Rating, SeekColor, ServerToClientEvents
+} from './protocol';
+import { loadJSON, saveJSON } from './storage';
+
+export type GameSocket = Socket<ServerToClientEvents, ClientToServerEvents>;
+
+const reasonText: Record<GameOverReason, string> = {
+  checkmate: 'by checkmate',
+  stalemate: 'by stalemate',
+  insufficientMaterial: 'by insufficient material',
+  threefoldRepetition: 'by threefold repetition',
+  fiftyMoveRule: 'by the fifty-move rule',
+  timeout: 'on time',
+  resignation: 'by resignation',
+  agreement: 'by agreement',
+  abandonment: 'by abandonment',
+};
+
+export const describeGameOver = ({ result, reason, loser }: GameOver): string => {
+  if (result === '1/2-1/2') {
+    // A flag fall against a lone king is still a draw
+    if (reason === 'timeout') return `Draw: ${loser === 'white' ? 'White' : 'Black'} ran out of time, but the opponent cannot mate`;
+    return `Draw ${reasonText[reason]}`;
+  }
+  return `${result === '1-0' ? 'White' : 'Black'} wins ${reasonText[reason]}`;
+};
+
+const moveRejectionText: Record<MoveRejectReason, string> = {
+  notSeated: 'you are not playing in this game',
+  notYourTurn: 'it is not your turn',
+  outOfSync: 'your board was out of date',
+  illegalMove: 'the move is illegal',
+  gameOver: 'the game is over',
+};
+
+export const describeMoveRejection = (reason: MoveRejectReason): string => moveRejectionText[reason];
+
+export const colorChoices: { value: SeekColor, label: string }[] = [
+  { value: 'random', label: 'Random' },
+  { value: 'white', label: 'White' },
+  { value: 'black', label: 'Black' },
+];
+
+// A rating deviation this high means only a few games have been played
+const PROVISIONAL_RD = 110;
+
+export const formatRating = (rating?: Rating): string => {
+  if (!rating) return '1500?';
+  return `${Math.round(rating.rating)}${rating.rd > PROVISIONAL_RD ? '?' : ''}`;
+};
+
+export const formatRatingChange = ({ before, after }: { before: number, after: number }): string => {
+  const diff = Math.round(after) - Math.round(before);
+  return `${Math.round(after)} (${diff >= 0 ? '+' : ''}${diff})`;
+};
+
+// Identifies this browser to the server so a dropped player can reclaim their seat.
+// Generated once and kept private; the server hands out a separate public player id.
+export const getSessionToken = (): string => {
+  const existing = loadJSON<string | null>('session-token', null);
+  if (existing) return existing;
+  const token = Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+  saveJSON('session-token', token);
+  return token;
+};
+
+// The room we are seated in, rejoined automatically after a refresh
+export const loadActiveRoom = () => loadJSON<string | null>('active-room', null);
+
+export const saveActiveRoom = (roomId: string | null) => saveJSON('active-room', roomId);
+
+// Rooms have their own URL, /play/<roomId>, which doubles as the invite link
+export const playPath = (roomId: string) => `/play/${encodeURIComponent(roomId)}`;
+
+export const inviteLink = (roomId: string) => `${window.location.origin}${playPath(roomId)}`;
+
+// A malformed invite link is treated like no invite at all
+export const roomIdFromPath = (pathname: string): string | null => {
+  const match = pathname.match(/^\/play\/([^/]+)\/?$/);
+  if (!match) return null;
+  try {
+    return decodeURIComponent(match[1]);
+  } catch (e) {
+    return null;
+  }
+};
@@ -0,0 +1,427 @@
+import { Chess } from 'chess.js';
+import { loadJSON, saveJSON } from './storage';
+
+export type Opening = 'Italian Game' | 'French Defense' | 'Scandinavian Defense' |
+                      'King\'s Indian Attack' | 'London System' | 'Caro-Kann Defense' |
+                      'Ruy Lopez' | 'Sicilian Defense' | 'Queen\'s Gambit';
+
+export interface OpeningNode {
+  san: string;
+  comment?: string;
+  // Names of the repertoire lines that pass through this move
+  lines: string[];
+  // The first child is the main line, the rest are sidelines
+  children: OpeningNode[];
+}
+
+export interface OpeningLine {
+  name: string;
+  moves: string[];
+}
+
+export interface OpeningDefinition {
+  name: Opening;
+  description: string;
+  // The side the student plays when drilling this opening
+  side: 'w' | 'b';
+  // Position after the moves that define the opening
+  fen: string;
+  anchor: number;
+  lines: OpeningLine[];
+  tree: OpeningNode[];
+}
+
+interface OpeningSource {
+  description: string;
+  side: 'w' | 'b';
+  // Number of plies that define the opening's starting position
+  anchor: number;
+  // SAN move text with optional {comments}; the first line is the main line
+  lines: { name: string, text: string }[];
+}
+
+const sources: Record<Opening, OpeningSource> = {
+  'Italian Game': {
+    description: 'A solid opening that develops pieces quickly and controls the center.',
+    side: 'w',
+    anchor: 5,
+    lines: [
+      {
+        name: 'Giuoco Piano',
+        text: 'e4 {Claims the center and frees the bishop and queen.} e5 Nf3 {Develops with an attack on e5.} Nc6 Bc4 {Aims the bishop at f7, the weakest point in Black\'s camp.} Bc5 c3 {Prepares d4 to build a full pawn center.} Nf6 d4 {Strikes in the center while the c3 pawn supports it.} exd4 cxd4 {Recaptures toward the center.} Bb4+',
+      },
+      {
+        name: 'Giuoco Pianissimo',
+        text: 'e4 e5 Nf3 Nc6 Bc4 Bc5 d3 {A quiet setup: keep e4 protected and castle first.} Nf6 O-O {King safety before any central break.} d6',
+      },
+      {
+        name: 'Two Knights Defense',
+        text: 'e4 e5 Nf3 Nc6 Bc4 Nf6 d3 {Protects e4 calmly instead of entering sharp lines.} Be7 O-O O-O',
+      },
+      {
+        name: 'Two Knights, Knight Attack',
+        text: 'e4 e5 Nf3 Nc6 Bc4 Nf6 Ng5 {Doubles the attack on f7.} d5 exd5 {Forced: the pawn must be taken.} Na5',
+      },
+      {
+        name: 'Hungarian Defense',
+        text: 'e4 e5 Nf3 Nc6 Bc4 Be7 d4 {Against a passive setup, open the center at once.} d6',
+      },
+    ],
+  },
+  'French Defense': {
+    description: 'A solid defense that can lead to closed positions, good for strategic play.',
+    side: 'b',
+    anchor: 2,
+    lines: [
+      {
+        name: 'Winawer Variation',
+        text: 'e4 e6 {Prepares ...d5 so that a pawn can recapture on d5.} d4 d5 {Challenges e4 straight away.} Nc3 Bb4 {Pins the knight and keeps pressure on e4.} e5 c5 {Hit the pawn chain at its base.} a3 Bxc3+ bxc3 Ne7 {The knight heads for f5 or c6 and keeps f6 free for the queen.}',
+      },
+      {
+        name: 'Classical Variation',
+        text: 'e4 e6 d4 d5 Nc3 Nf6 {Develops and adds a second attacker on e4.} Bg5 Be7 {Breaks the pin.} e5 Nfd7',
+      },
+      {
+        name: 'Advance Variation',
+        text: 'e4 e6 d4 d5 e5 c5 {Attack d4, the base of White\'s chain.} c3 Nc6 {More pressure on d4.} Nf3 Qb6 {A third attacker on d4, also eyeing b2.}',
+      },
+      {
+        name: 'Tarrasch Variation',
+        text: 'e4 e6 d4 d5 Nd2 c5 {Open the position before White completes development.} exd5 exd5 {Accepts an isolated pawn for active pieces.} Ngf3 Nc6',
+      },
+      {
+        name: 'Exchange Variation',
+        text: 'e4 e6 d4 d5 exd5 exd5 {The structure is symmetrical; develop actively.} Bd3 Bd6',
+      },
+    ],
+  },
+  'Scandinavian Defense': {
+    description: 'An aggressive defense that immediately challenges White\'s center control.',
+    side: 'b',
+    anchor: 2,
+    lines: [
+      {
+        name: 'Main Line, ...Qa5',
+        text: 'e4 d5 {Challenges e4 on the very first move.} exd5 Qxd5 {Regains the pawn at once.} Nc3 Qa5 {The queen steps aside while pinning the c3 knight.} d4 Nf6 Nf3 c6 {Gives the queen a retreat square and prepares ...Bf5.}',
+      },
+      {
+        name: '...Qd6 Variation',
+        text: 'e4 d5 exd5 Qxd5 Nc3 Qd6 {A modern retreat, ready for ...a6 and ...Nf6.} d4 Nf6 Nf3 a6',
+      },
+      {
+        name: '...Qd8 Retreat',
+        text: 'e4 d5 exd5 Qxd5 Nc3 Qd8 {The most solid retreat, though it costs time.} d4 Nf6',
+      },
+      {
+        name: 'Modern Variation',
+        text: 'e4 d5 exd5 Nf6 {Recapture with the knight instead of the queen.} d4 Nxd5 c4 Nb6',
+      },
+    ],
+  },
+  'King\'s Indian Attack': {
+    description: 'A flexible opening system that can be used against various Black setups.',
+    side: 'w',
+    anchor: 3,
+    lines: [
+      {
+        name: 'Against ...c6',
+        text: 'Nf3 {Flexible development that does not commit the pawns.} d5 g3 {Prepares the kingside fianchetto.} Nf6 Bg2 c6 O-O {Castle early; the system is built around a safe king.} Bg4 d3 Nbd7 Nbd2 {Supports the coming e4 break.} e5',
+      },
+      {
+        name: 'Against ...e6',
+        text: 'Nf3 d5 g3 Nf6 Bg2 e6 O-O Be7 d3 O-O Nbd2 c5 e4 {The thematic central break of the system.}',
+      },
+      {
+        name: 'Against ...g6',
+        text: 'Nf3 d5 g3 Nf6 Bg2 g6 O-O Bg7 d3 {Keep the structure flexible against a double fianchetto.} O-O',
+      },
+    ],
+  },
+  'London System': {
+    description: 'A solid, easy-to-learn opening that develops pieces to good squares.',
+    side: 'w',
+    anchor: 3,
+    lines: [
+      {
+        name: 'Against ...c5',
+        text: 'd4 {Takes the center with a pawn protected by the queen.} d5 Bf4 {Develops the dark-squared bishop before playing e3.} Nf6 e3 {Opens the way for the light-squared bishop.} c5 c3 {Supports d4 and builds the London triangle.} Nc6 Nd2 e6 Ngf3',
+      },
+      {
+        name: 'Against ...e6',
+        text: 'd4 d5 Bf4 Nf6 e3 e6 Nf3 c5 c3 Nc6 Nbd2 Bd6 Bg3 {Keep the bishop: do not allow a trade that damages the structure.}',
+      },
+      {
+        name: 'Against ...Bf5',
+        text: 'd4 d5 Bf4 Nf6 e3 Bf5 c4 {With both bishops out, strike at d5 and the b7 pawn.} e6 Nc3',
+      },
+      {
+        name: 'Against the King\'s Indian setup',
+        text: 'd4 Nf6 Bf4 g6 e3 Bg7 Nf3 O-O Be2 {A modest but safe setup; castle next.}',
+      },
+    ],
+  },
+  'Caro-Kann Defense': {
+    description: 'A solid defense that leads to a strong pawn structure for Black.',
+    side: 'b',
+    anchor: 2,
+    lines: [
+      {
+        name: 'Classical Variation',
+        text: 'e4 c6 {Prepares ...d5 while keeping the light-squared bishop free.} d4 d5 Nc3 dxe4 Nxe4 Bf5 {Develops the bishop outside the pawn chain with tempo.} Ng3 Bg6 h4 h6 {Stops h5 from trapping the bishop.} Nf3 Nd7',
+      },
+      {
+        name: 'Advance Variation',
+        text: 'e4 c6 d4 d5 e5 Bf5 {Get the bishop out before ...e6 shuts it in.} Nf3 e6 Be2 c5 {Strike at d4, the base of White\'s chain.}',
+      },
+      {
+        name: 'Exchange Variation',
+        text: 'e4 c6 d4 d5 exd5 cxd5 Bd3 Nc6 c3 Nf6 Bf4 Bg4 {Develop the bishop actively before playing ...e6.}',
+      },
+      {
+        name: 'Two Knights Move Order',
+        text: 'e4 c6 d4 d5 Nd2 dxe4 Nxe4 Bf5',
+      },
+    ],
+  },
+  'Ruy Lopez': {
+    description: 'One of the oldest and most classic openings, focusing on controlling the center.',
+    side: 'w',
+    anchor: 5,
+    lines: [
+      {
+        name: 'Closed Variation',
+        text: 'e4 e5 Nf3 Nc6 Bb5 {Pressure on the knight that defends e5.} a6 Ba4 {Keep the pin; the bishop stays on the a4-e8 diagonal.} Nf6 O-O {Castle first: e4 is indirectly protected.} Be7 Re1 {Now e4 really is protected.} b5 Bb3 d6 c3 {Prepares d4 and a retreat square on c2.} O-O',
+      },
+      {
+        name: 'Open Variation',
+        text: 'e4 e5 Nf3 Nc6 Bb5 a6 Ba4 Nf6 O-O Nxe4 d4 {Open the center while Black\'s king is still uncastled.} b5 Bb3 d5 dxe5 Be6',
+      },
+      {
+        name: 'Exchange Variation',
+        text: 'e4 e5 Nf3 Nc6 Bb5 a6 Bxc6 {Gives up the bishop to damage Black\'s pawn structure.} dxc6 O-O',
+      },
+      {
+        name: 'Berlin Defense',
+        text: 'e4 e5 Nf3 Nc6 Bb5 Nf6 O-O Nxe4 d4 {Regain the pawn through the center.} Nd6 Bxc6 dxc6 dxe5 Nf5 Qxd8+ Kxd8',
+      },
+      {
+        name: 'Classical Defense',
+        text: 'e4 e5 Nf3 Nc6 Bb5 Bc5 c3 {Prepares d4 with tempo on the bishop.} Nf6 d4 Bb6',
+      },
+    ],
+  },
+  'Sicilian Defense': {
+    description: 'An aggressive defense that leads to sharp, complex positions.',
+    side: 'b',
+    anchor: 2,
+    lines: [
+      {
+        name: 'Najdorf Variation',
+        text: 'e4 c5 {Fights for d4 without allowing a symmetrical center.} Nf3 d6 d4 cxd4 {Trade a wing pawn for a central one.} Nxd4 Nf6 {Hits e4 before White can protect it with f3.} Nc3 a6 {Controls b5 and prepares ...e5 or ...b5.} Be3 e5',
+      },
+      {
+        name: 'Dragon Variation',
+        text: 'e4 c5 Nf3 d6 d4 cxd4 Nxd4 Nf6 Nc3 g6 {The bishop on g7 will rake the long diagonal.} Be3 Bg7 f3 O-O',
+      },
+      {
+        name: 'Sveshnikov Variation',
+        text: 'e4 c5 Nf3 Nc6 d4 cxd4 Nxd4 Nf6 Nc3 e5 {Gains time on the d4 knight and grabs space.} Ndb5 d6 {Keeps the knight out of d6.}',
+      },
+      {
+        name: 'Alapin Variation',
+        text: 'e4 c5 c3 Nf6 {Attack e4 before White can play d4.} e5 Nd5 d4 cxd4 Nf3',
+      },
+      {
+        name: 'Closed Variation',
+        text: 'e4 c5 Nc3 Nc6 g3 g6 {Mirror White\'s fianchetto.} Bg2 Bg7',
+      },
+    ],
+  },
+  'Queen\'s Gambit': {
+    description: 'A classic opening that fights for control of the center with pawns.',
+    side: 'w',
+    anchor: 3,
+    lines: [
+      {
+        name: 'Queen\'s Gambit Declined',
+        text: 'd4 d5 c4 {Offers a wing pawn to deflect Black\'s d-pawn.} e6 Nc3 {Adds pressure on d5.} Nf6 Bg5 {Pins the defender of d5.} Be7 e3 O-O Nf3',
+      },
+      {
+        name: 'Queen\'s Gambit Accepted',
+        text: 'd4 d5 c4 dxc4 Nf3 {Develop first; the pawn will be regained.} Nf6 e3 e6 Bxc4 c5 O-O',
+      },
+      {
+        name: 'Slav Defense',
+        text: 'd4 d5 c4 c6 Nf3 Nf6 Nc3 dxc4 a4 {Stops ...b5 from holding on to the pawn.} Bf5',
+      },
+      {
+        name: 'Albin Countergambit',
+        text: 'd4 d5 c4 e5 dxe5 {Take the pawn.} d4 Nf3 {Develop and prepare to blockade the d4 pawn.} Nc6',
+      },
+    ],
+  },
+};
+
+const parseLineText = (text: string) => {
+  const moves: { san: string, comment?: string }[] = [];
+  const tokens = text.match(/\{[^}]*\}|\S+/g) ?? [];
+  tokens.forEach(token => {
+    if (token.startsWith('{')) {
+      moves[moves.length - 1].comment = token.slice(1, -1).trim();
+    } else {
+      moves.push({ san: token });
+    }
+  });
+  return moves;
+};
+
+const buildOpening = (name: Opening, source: OpeningSource): OpeningDefinition => {
+  const tree: OpeningNode[] = [];
+  const lines: OpeningLine[] = [];
+
+  source.lines.forEach(({ name: lineName, text }) => {
+    const moves = parseLineText(text);
+    let siblings = tree;
+    moves.forEach(({ san, comment }) => {
+      let node = siblings.find(child => child.san === san);
+      if (!node) {
+        node = { san, lines: [], children: [] };
+        siblings.push(node);
+      }
+      if (comment && !node.comment) node.comment = comment;
+      node.lines.push(lineName);
+      siblings = node.children;
+    });
+    lines.push({ name: lineName, moves: moves.map(move => move.san) });
+  });
+
+  const game = new Chess();
+  lines[0].moves.slice(0, source.anchor).forEach(san => game.move(san));
+
+  return {
+    name,
+    description: source.description,
+    side: source.side,
+    fen: game.fen(),
+    anchor: source.anchor,
+    lines,
+    tree,
+  };
+};
+
+export const openings = Object.fromEntries(
+  (Object.keys(sources) as Opening[]).map(name => [name, buildOpening(name, sources[name])])
+) as Record<Opening, OpeningDefinition>;
+
+// Book moves available after the given SAN path, or [] once out of book.
+export const getBookMoves = (opening: OpeningDefinition, path: string[]): OpeningNode[] => {
+  let siblings = opening.tree;
+  for (const san of path) {
+    const node = siblings.find(child => child.san === san);
+    if (!node) return [];
+    siblings = node.children;
+  }
+  return siblings;
+};
+
+// Names the opening (and line, once it is unambiguous) a game from the
+// standard starting position follows.
+export const detectOpening = (moves: string[]): string | null => {
+  let best: { name: string, depth: number } | null = null;
+
+  for (const opening of Object.values(openings)) {
+    let siblings = opening.tree;
+    let node: OpeningNode | undefined;
+    let depth = 0;
+    for (const san of moves) {
+      const next = siblings.find(child => child.san === san);
+      if (!next) break;
+      node = next;
+      siblings = next.children;
+      depth++;
+    }
+
+    if (node && depth >= opening.anchor && (!best || depth > best.depth)) {
+      const name = node.lines.length === 1 ? `${opening.name}: ${node.lines[0]}` : opening.name;
+      best = { name, depth };
+    }
+  }
+
+  return best ? best.name : null;
+};
+
+export const isLineFinished = (line: OpeningLine, path: string[]) =>
+  path.length >= line.moves.length;
+
+export type BookCheck =
+  | { inBook: true, node: OpeningNode }
+  | { inBook: false, expected: OpeningNode[], explanation: string };
+
+export const checkBookMove = (opening: OpeningDefinition, path: string[], san: string): BookCheck => {
+  const expected = getBookMoves(opening, path);
+  const node = expected.find(child => child.san === san);
+  if (node) return { inBook: true, node };
+
+  const [main, ...others] = expected;
+  const alternatives = others.length ? ` (also playable: ${others.map(child => child.san).join(', ')})` : '';
+  const explanation = main
+    ? `${san} leaves the repertoire. The book move is ${main.san}${alternatives}.${main.comment ? ` ${main.comment}` : ''}`
+    : `${san} is played after the line has already ended.`;
+
+  return { inBook: false, expected, explanation };
+};
+
+export interface LineProgress {
+  attempts: number;
+  completions: number;
+  perfectRuns: number;
+  deviations: number;
+  lastPracticed: string | null;
+}
+
+const PROGRESS_KEY = 'opening-progress';
+
+const emptyProgress: LineProgress = {
+  attempts: 0,
+  completions: 0,
+  perfectRuns: 0,
+  deviations: 0,
+  lastPracticed: null,
+};
+
+export const lineId = (opening: Opening, lineName: string) => `${opening}/${lineName}`;
+
+export const loadLineProgress = (): Record<string, LineProgress> =>
+  loadJSON<Record<string, LineProgress>>(PROGRESS_KEY, {});
+
+export const getLineProgress = (progress: Record<string, LineProgress>, id: string): LineProgress =>
+  progress[id] ?? emptyProgress;
+
+export const updateLineProgress = (
+  id: string,
+  update: (current: LineProgress) => LineProgress
+): Record<string, LineProgress> => {
+  const progress = loadLineProgress();
+  const next = {
+    ...progress,
+    [id]: { ...update(getLineProgress(progress, id)), lastPracticed: new Date().toISOString() },
+  };
+  saveJSON(PROGRESS_KEY, next);
+  return next;
+};
+
+// Picks the line the student has completed least often, preferring earlier
+// (more important) lines on ties.
+export const pickLine = (
+  opening: OpeningDefinition,
+  progress: Record<string, LineProgress>,
+  path: string[] = []
+): OpeningLine | undefined =>
+  opening.lines
+    .filter(line => path.every((san, index) => line.moves[index] === san))
+    .reduce<OpeningLine | undefined>((best, line) => {
+      if (!best) return line;
+      const bestRuns = getLineProgress(progress, lineId(opening.name, best.name)).completions;
+      const lineRuns = getLineProgress(progress, lineId(opening.name, line.name)).completions;
+      return lineRuns < bestRuns ? line : best;
+    }, undefined);
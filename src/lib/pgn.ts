@@ -0,0 +1,179 @@
+import { Chess, DEFAULT_POSITION } from 'chess.js';
+import { GameReport } from './analysis';
+import { MoveClassification, formatScore } from './evaluation';
+import { getStartFen } from './game';
+import { detectOpening } from './openings';
+
+export type PgnHeaders = Record<string, string>;
+
+export interface GameRecord {
+  headers: PgnHeaders;
+  startFen: string;
+  // SAN moves from the starting position
+  moves: string[];
+  // Comment shown after the given ply; ply 0 comments on the starting position
+  comments?: Record<number, string>;
+  // Numeric annotation glyphs per ply, e.g. '$2' for a mistake
+  nags?: Record<number, string>;
+}
+
+export const SEVEN_TAG_ROSTER = ['Event', 'Site', 'Date', 'Round', 'White', 'Black', 'Result'];
+
+const MAX_LINE_LENGTH = 80;
+
+const classificationNags: Partial<Record<MoveClassification, string>> = {
+  inaccuracy: '$6',
+  mistake: '$2',
+  blunder: '$4',
+};
+
+export const pgnDate = (date: Date = new Date()) =>
+  `${date.getFullYear()}.${String(date.getMonth() + 1).padStart(2, '0')}.${String(date.getDate()).padStart(2, '0')}`;
+
+export const gameResult = (game: Chess): string => {
+  if (game.isCheckmate()) return game.turn() === 'w' ? '0-1' : '1-0';
+  if (game.isDraw() || game.isStalemate()) return '1/2-1/2';
+  return '*';
+};
+
+// Builds a record from a live game, filling in the Seven Tag Roster.
+export const createGameRecord = (game: Chess, headers: PgnHeaders = {}): GameRecord => {
+  const startFen = getStartFen(game);
+  const moves = game.history();
+  const opening = startFen === DEFAULT_POSITION ? detectOpening(moves) : null;
+
+  return {
+    headers: {
+      Event: '?',
+      Site: 'ChessDojo',
+      Date: pgnDate(),
+      Round: '-',
+      White: '?',
+      Black: '?',
+      Result: gameResult(game),
+      ...(opening ? { Opening: opening } : {}),
+      ...headers,
+    },
+    startFen,
+    moves,
+  };
+};
+
+// Adds engine evaluations, classifications and glyphs from a game review.
+export const annotateGameRecord = (record: GameRecord, report: GameReport): GameRecord => {
+  const comments: Record<number, string> = { ...record.comments };
+  const nags: Record<number, string> = { ...record.nags };
+
+  report.moves.forEach(move => {
+    const evaluation = report.evaluations[move.ply];
+    const notes = [`[%eval ${formatScore(evaluation.score)}]`];
+    if (classificationNags[move.classification]) {
+      nags[move.ply] = classificationNags[move.classification] as string;
+      notes.push(`${move.classification[0].toUpperCase()}${move.classification.slice(1)} (-${move.loss} cp).`);
+      if (move.bestSan) notes.push(`Best was ${move.bestSan}.`);
+    }
+    comments[move.ply] = [comments[move.ply], ...notes].filter(Boolean).join(' ');
+  });
+
+  return {
+    ...record,
+    headers: { ...record.headers, Annotator: 'Stockfish' },
+    comments,
+    nags,
+  };
+};
+
+const wrapTokens = (tokens: string[]): string => {
+  const lines: string[] = [];
+  let line = '';
+  tokens.forEach(token => {
+    if (line && line.length + token.length + 1 > MAX_LINE_LENGTH) {
+      lines.push(line);
+      line = token;
+    } else {
+      line = line ? `${line} ${token}` : token;
+    }
+  });
+  if (line) lines.push(line);
+  return lines.join('\n');
+};
+
+export const toPgn = (record: GameRecord): string => {
+  const headers: PgnHeaders = { ...record.headers };
+  if (record.startFen !== DEFAULT_POSITION) {
+    headers.SetUp = '1';
+    headers.FEN = record.startFen;
+  }
+  const result = headers.Result ?? '*';
+
+  const orderedKeys = [
+    ...SEVEN_TAG_ROSTER,
+    ...Object.keys(headers).filter(key => !SEVEN_TAG_ROSTER.includes(key)),
+  ];
+  const headerText = orderedKeys
+    .map(key => `[${key} "${(headers[key] ?? '?').replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"]`)
+    .join('\n');
+
+  const game = new Chess(record.startFen);
+  const tokens: string[] = [];
+  const comments = record.comments ?? {};
+  if (comments[0]) tokens.push(`{${comments[0]}}`);
+
+  record.moves.forEach((san, index) => {
+    const ply = index + 1;
+    const moveNumber = game.moveNumber();
+    // Black moves need their number after a comment or at the very start
+    if (game.turn() === 'w') {
+      tokens.push(`${moveNumber}.`);
+    } else if (index === 0 || comments[ply - 1]) {
+      tokens.push(`${moveNumber}...`);
+    }
+    game.move(san);
+    tokens.push(san);
+    if (record.nags?.[ply]) tokens.push(record.nags[ply]);
+    if (comments[ply]) tokens.push(`{${comments[ply].replace(/}/g, ')')}}`);
+  });
+  tokens.push(result);
+
+  return `${headerText}\n\n${wrapTokens(tokens)}\n`;
+};
+
+export const parsePgn = (pgn: string): GameRecord => {
+  const game = new Chess();
+  game.loadPgn(pgn.trim());
+
+  const headers = { ...game.header() };
+  const startFen = headers.FEN ?? DEFAULT_POSITION;
+  delete headers.SetUp;
+  delete headers.FEN;
+
+  const moves = game.history();
+  const replay = new Chess(startFen);
+  const plyByFen: Record<string, number> = { [replay.fen()]: 0 };
+  moves.forEach((san, index) => {
+    replay.move(san);
+    plyByFen[replay.fen()] ??= index + 1;
+  });
+
+  const comments: Record<number, string> = {};
+  game.getComments().forEach(({ fen, comment }) => {
+    if (plyByFen[fen] !== undefined) comments[plyByFen[fen]] = comment;
+  });
+
+  return { headers, startFen, moves, comments };
+};
+
+export const recordToGame = (record: GameRecord): Chess => {
+  const game = new Chess(record.startFen);
+  record.moves.forEach(san => game.move(san));
+  return game;
+};
+
+export const downloadPgn = (pgn: string, filename: string) => {
+  const url = URL.createObjectURL(new Blob([pgn], { type: 'application/x-chess-pgn' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename.endsWith('.pgn') ? filename : `${filename}.pgn`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
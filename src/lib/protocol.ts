@@ -0,0 +1,289 @@
+// The Socket.IO protocol between the multiplayer server and the client.
+// Both sides import these types, so a payload change that is not made on
+// both ends fails the type check instead of being silently ignored.
+import type { ClockColor, ClockState, TimeControl, TimeControlCategory } from './clock';
+
+export type GameOverReason =
+  | 'checkmate'
+  | 'stalemate'
+  | 'insufficientMaterial'
+  | 'threefoldRepetition'
+  | 'fiftyMoveRule'
+  | 'timeout'
+  | 'resignation'
+  | 'agreement'
+  | 'abandonment';
+
+export interface Rating {
+  rating: number;
+  rd: number;
+  volatility: number;
+  games: number;
+}
+
+export interface PublicProfile {
+  id: string;
+  name: string;
+  ratings: Partial<Record<TimeControlCategory, Rating>>;
+}
+
+export type Profiles = Record<string, PublicProfile>;
+
+export interface RatingChanges {
+  category: TimeControlCategory;
+  white: { before: number, after: number };
+  black: { before: number, after: number };
+}
+
+export interface RatingHistoryEntry {
+  category: TimeControlCategory;
+  rating: number;
+  rd: number;
+  gameId: string;
+  at: number;
+}
+
+export interface GameOver {
+  result: '1-0' | '0-1' | '1/2-1/2';
+  reason: GameOverReason;
+  // Set for timeouts, resignations and abandoned games
+  loser?: ClockColor;
+  // Set when a rated game changed both players' ratings
+  ratingChanges?: RatingChanges;
+}
+
+// Seated players talk in 'players', which spectators can read; 'spectators' is hidden from the players
+export type ChatStream = 'players' | 'spectators';
+
+export interface ChatMessage {
+  id: string;
+  stream: ChatStream;
+  playerId: string;
+  name: string;
+  text: string;
+  at: number;
+}
+
+// Full room state sent with every join, so a returning client can resync
+export interface RoomSnapshot {
+  roomId: string;
+  startFen: string;
+  fen: string;
+  moves: string[];
+  clock: ClockState | null;
+  result: GameOver | null;
+  drawOffer: ClockColor | null;
+  takebackOffer: ClockColor | null;
+  // Only while the game is over
+  rematchOffer: ClockColor | null;
+  // Seated players who dropped and are inside their grace period
+  reconnecting: ClockColor[];
+  profiles: Profiles;
+  // Chat history for the streams the joining user can read
+  chat?: ChatMessage[];
+}
+
+// A finished game as archived by the server
+export interface ArchivedGame {
+  id: string;
+  roomId: string;
+  players: { white?: string, black?: string };
+  startFen: string;
+  moves: string[];
+  timeControl: TimeControl | null;
+  rated: boolean;
+  result: GameOver['result'];
+  reason: GameOverReason;
+  // Only for rated games
+  ratingChanges?: RatingChanges;
+  startedAt: number;
+  endedAt: number;
+}
+
+export type SeekColor = ClockColor | 'random';
+
+export interface Seek {
+  id: string;
+  playerId: string;
+  timeControl: TimeControl | null;
+  color: SeekColor;
+  rated: boolean;
+  createdAt: number;
+}
+
+export interface LiveGame {
+  roomId: string;
+  players: { white?: string, black?: string };
+  timeControl: TimeControl | null;
+  rated: boolean;
+  moveCount: number;
+}
+
+export interface LobbyState {
+  profiles: Profiles;
+  seeks: Seek[];
+  games: LiveGame[];
+}
+
+// A Syzygy probe, from the point of view of the side to move
+export interface TablebaseResult {
+  wdl: 'win' | 'draw' | 'loss';
+  // UCI; the fastest win, or the most stubborn defence
+  bestMove: string;
+}
+
+export type ErrorCode =
+  | 'INVALID_PAYLOAD'
+  | 'ROOM_NOT_FOUND'
+  | 'INVALID_TIME_CONTROL'
+  | 'INVALID_POSITION'
+  | 'INVALID_SEEK'
+  | 'RATED_NEEDS_TIME_CONTROL'
+  | 'INVALID_NAME'
+  | 'MESSAGE_TOO_LONG'
+  | 'RATE_LIMITED';
+
+export interface ServerError {
+  code: ErrorCode;
+  // Human-readable, for display
+  message: string;
+  // The client event that caused the error
+  event: keyof ClientToServerEvents;
+}
+
+// Limits the server enforces, shared so the client can enforce them too
+export const MAX_CHAT_LENGTH = 200;
+export const MIN_NAME_LENGTH = 2;
+export const MAX_NAME_LENGTH = 20;
+export const PROMOTION_PIECES = ['q', 'r', 'b', 'n'] as const;
+export const RATING_CATEGORIES: TimeControlCategory[] = ['bullet', 'blitz', 'rapid', 'classical'];
+// How long the client waits for a tablebase probe; the server gives up well before
+export const TABLEBASE_TIMEOUT_MS = 6000;
+
+export type PromotionPiece = typeof PROMOTION_PIECES[number];
+
+export interface PlayerJoined extends RoomSnapshot {
+  color: ClockColor;
+  // The player who took the seat; not necessarily the receiver
+  playerId: string;
+  opponent?: string | null;
+  // The seat's owner came back inside the grace period
+  reconnected?: boolean;
+}
+
+export interface MoveMade {
+  roomId: string;
+  // Index of the move in the game; the mover's acknowledgement
+  ply: number;
+  from: string;
+  to: string;
+  promotion?: string;
+  san: string;
+  fen: string;
+  clock: ClockState | null;
+}
+
+export type MoveRejectReason = 'notSeated' | 'notYourTurn' | 'outOfSync' | 'illegalMove' | 'gameOver';
+
+// Sent to the mover only; the snapshot is the position to roll back to
+export interface MoveRejected {
+  roomId: string;
+  ply: number;
+  reason: MoveRejectReason;
+  snapshot: RoomSnapshot;
+}
+
+export interface CreateRoomOptions {
+  timeControl: TimeControl | null;
+  // The creator's seat
+  color: SeekColor;
+  // The standard starting position when omitted
+  startFen?: string;
+  // Private rooms are left out of the lobby; only the invite link leads there
+  private: boolean;
+}
+
+export interface RoomRequest {
+  roomId: string;
+}
+
+export interface MoveRequest extends RoomRequest {
+  // Index the move will have, i.e. the number of moves the client has seen.
+  // A mismatch means the client is out of step and gets rejected.
+  ply: number;
+  from: string;
+  to: string;
+  promotion?: PromotionPiece;
+}
+
+export interface ServerToClientEvents {
+  session: (session: { playerId: string, profile: PublicProfile }) => void;
+  profile: (profile: PublicProfile) => void;
+  // The creator is seated straight away
+  roomCreated: (created: RoomSnapshot & { color: ClockColor }) => void;
+  playerJoined: (joined: PlayerJoined) => void;
+  joinedAsSpectator: (snapshot: RoomSnapshot) => void;
+  moveMade: (move: MoveMade) => void;
+  moveRejected: (rejection: MoveRejected) => void;
+  playerLeft: (playerId: string, color: ClockColor) => void;
+  playerDisconnected: (event: { color: ClockColor, playerId: string, graceMs: number }) => void;
+  playerReconnected: (event: { color: ClockColor, playerId: string }) => void;
+  gameOver: (gameOver: GameOver & { clock: ClockState | null, profiles: Profiles }) => void;
+  drawOffered: (offer: { by: ClockColor }) => void;
+  drawDeclined: (decline: { by: ClockColor }) => void;
+  takebackRequested: (request: { by: ClockColor }) => void;
+  takebackDeclined: (decline: { by: ClockColor }) => void;
+  // The snapshot is the rewound position
+  takebackAccepted: (takeback: { by: ClockColor, snapshot: RoomSnapshot }) => void;
+  rematchOffered: (offer: { by: ClockColor }) => void;
+  rematchDeclined: (decline: { by: ClockColor }) => void;
+  // A new game in the same room, with the players' colors swapped
+  rematchStarted: (rematch: RoomSnapshot & { players: { white?: string, black?: string } }) => void;
+  chat: (message: ChatMessage) => void;
+  lobby: (lobby: LobbyState) => void;
+  paired: (pairing: { roomId: string }) => void;
+  error: (error: ServerError) => void;
+}
+
+export interface ClientToServerEvents {
+  createRoom: (options: CreateRoomOptions) => void;
+  joinRoom: (roomId: string) => void;
+  // Gives up the seat straight away; leaving a game under way forfeits it
+  leaveRoom: (request: RoomRequest) => void;
+  move: (move: MoveRequest) => void;
+  // The authoritative room state, for a client that noticed it is out of step
+  resync: (request: RoomRequest, ack: (snapshot: RoomSnapshot | null) => void) => void;
+  resign: (request: RoomRequest) => void;
+  offerDraw: (request: RoomRequest) => void;
+  acceptDraw: (request: RoomRequest) => void;
+  declineDraw: (request: RoomRequest) => void;
+  // Asks to undo the requester's last move, and the opponent's reply if there was one
+  requestTakeback: (request: RoomRequest) => void;
+  acceptTakeback: (request: RoomRequest) => void;
+  declineTakeback: (request: RoomRequest) => void;
+  // Only once the game is over; offering back accepts
+  offerRematch: (request: RoomRequest) => void;
+  acceptRematch: (request: RoomRequest) => void;
+  declineRematch: (request: RoomRequest) => void;
+  chatMessage: (message: RoomRequest & { text: string }) => void;
+  enterLobby: () => void;
+  leaveLobby: () => void;
+  // Pairs with the first compatible open seek, or posts a new one
+  createSeek: (seek: { timeControl: TimeControl | null, color: SeekColor, rated: boolean }) => void;
+  acceptSeek: (seekId: string) => void;
+  cancelSeek: (seekId: string) => void;
+  // Finished games, newest first; by default only the ones this player played
+  listGames: (
+    options: { mine?: boolean, limit?: number },
+    ack: (result: { games: ArchivedGame[], profiles: Profiles }) => void
+  ) => void;
+  getGame: (gameId: string, ack: (game: ArchivedGame | null) => void) => void;
+  setName: (name: string) => void;
+  getLeaderboard: (options: { category: TimeControlCategory }, ack: (leaders: PublicProfile[]) => void) => void;
+  getRatingHistory: (
+    playerId: string,
+    ack: (history: { profile: PublicProfile, history: RatingHistoryEntry[] }) => void
+  ) => void;
+  // Null when the server has no tables for the position
+  probeTablebase: (fen: string, ack: (result: TablebaseResult | null) => void) => void;
+}
@@ -0,0 +1,263 @@
+import { Chess } from 'chess.js';
+import { GameReport, winChance } from './analysis';
+import { uciToMove } from './engine';
+import { DEFAULT_RATING, rateGame } from './glicko2';
+import { Rating } from './protocol';
+import { loadJSON, saveJSON } from './storage';
+
+export type PuzzleSource = 'imported' | 'mined';
+
+// Lichess puzzle format: `fen` is the position before the opponent's move,
+// moves[0] is that move, and the solver plays moves[1], moves[3], ...
+export interface Puzzle {
+  id: string;
+  fen: string;
+  // UCI
+  moves: string[];
+  rating: number;
+  ratingDeviation: number;
+  themes: string[];
+  source: PuzzleSource;
+  gameUrl?: string;
+}
+
+export interface PuzzleAttempt {
+  solved: boolean;
+  at: string;
+  // The solver's rating after this attempt
+  rating: number;
+}
+
+export interface PuzzleStats {
+  rating: Rating;
+  attempts: Record<string, PuzzleAttempt>;
+}
+
+export interface PuzzleImport {
+  puzzles: Puzzle[];
+  // Entries that could not be read, with the reason
+  skipped: string[];
+}
+
+export type PuzzleMoveCheck =
+  | { result: 'correct', reply?: string, solved: boolean }
+  | { result: 'wrong' };
+
+const PUZZLES_KEY = 'puzzles';
+const STATS_KEY = 'puzzle-stats';
+// localStorage holds a few megabytes; the full Lichess database is far bigger
+export const MAX_PUZZLES = 5000;
+// Lichess' deviation for an established puzzle, used when a file has none
+const DEFAULT_PUZZLE_DEVIATION = 75;
+// Solutions longer than this come from deep engine lines nobody could be expected to find
+const MAX_MINED_PLIES = 5;
+// A mined puzzle needs a blunder that really changed the game
+const MIN_MINED_SWING = 30;
+const MIN_SOLVER_WIN_CHANCE = 70;
+
+export const loadPuzzles = (): Puzzle[] => loadJSON<Puzzle[]>(PUZZLES_KEY, []);
+
+// Adds puzzles that are not in the library yet and returns how many were new
+export const addPuzzles = (puzzles: Puzzle[]): number => {
+  const library = loadPuzzles();
+  const known = new Set(library.map(puzzle => puzzle.id));
+  const added: Puzzle[] = [];
+  for (const puzzle of puzzles) {
+    if (library.length + added.length >= MAX_PUZZLES) break;
+    if (known.has(puzzle.id)) continue;
+    known.add(puzzle.id);
+    added.push(puzzle);
+  }
+  saveJSON(PUZZLES_KEY, [...library, ...added]);
+  return added.length;
+};
+
+export const removePuzzle = (id: string): Puzzle[] => {
+  const puzzles = loadPuzzles().filter(puzzle => puzzle.id !== id);
+  saveJSON(PUZZLES_KEY, puzzles);
+  return puzzles;
+};
+
+export const loadPuzzleStats = (): PuzzleStats =>
+  loadJSON<PuzzleStats>(STATS_KEY, { rating: DEFAULT_RATING, attempts: {} });
+
+// Each attempt is a rated game against the puzzle. Only the first attempt at a puzzle counts.
+export const recordPuzzleAttempt = (puzzle: Puzzle, solved: boolean, now: Date = new Date()): PuzzleStats => {
+  const stats = loadPuzzleStats();
+  if (stats.attempts[puzzle.id]) return stats;
+
+  const opponent: Rating = { ...DEFAULT_RATING, rating: puzzle.rating, rd: puzzle.ratingDeviation };
+  const rating = rateGame(stats.rating, opponent, solved ? 1 : 0);
+  const next: PuzzleStats = {
+    rating,
+    attempts: { ...stats.attempts, [puzzle.id]: { solved, at: now.toISOString(), rating: rating.rating } },
+  };
+  saveJSON(STATS_KEY, next);
+  return next;
+};
+
+// The unplayed puzzle closest to the solver's rating, or failed ones once everything has been tried
+export const pickPuzzle = (puzzles: Puzzle[], stats: PuzzleStats, skip?: string): Puzzle | null => {
+  const candidates = puzzles.filter(puzzle => puzzle.id !== skip);
+  const fresh = candidates.filter(puzzle => !stats.attempts[puzzle.id]);
+  const pool = fresh.length ? fresh : candidates.filter(puzzle => !stats.attempts[puzzle.id]?.solved);
+  return pool.reduce<Puzzle | null>((best, puzzle) =>
+    !best || Math.abs(puzzle.rating - stats.rating.rating) < Math.abs(best.rating - stats.rating.rating) ? puzzle : best,
+  null);
+};
+
+// Checks the solver's move, the last one in `played`, against puzzle.moves[index].
+// Any mate ends the puzzle, even when it is not the move in the solution.
+export const checkPuzzleMove = (puzzle: Puzzle, index: number, played: Chess): PuzzleMoveCheck => {
+  if (played.isCheckmate()) return { result: 'correct', solved: true };
+  const move = played.history({ verbose: true }).at(-1);
+  if (move?.lan !== puzzle.moves[index]) return { result: 'wrong' };
+
+  const reply = puzzle.moves[index + 1];
+  return { result: 'correct', reply, solved: index + 2 >= puzzle.moves.length };
+};
+
+// A puzzle is only usable if every move in its line is legal. Throws for an invalid FEN.
+const checkLine = (fen: string, moves: string[]): string | null => {
+  if (moves.length < 2) return 'needs at least two moves';
+  const game = new Chess(fen);
+  try {
+    moves.forEach(uci => game.move(uciToMove(uci)));
+  } catch (e) {
+    return 'has an illegal move';
+  }
+  return null;
+};
+
+interface RawPuzzle {
+  id?: unknown;
+  fen?: unknown;
+  moves?: unknown;
+  rating?: unknown;
+  ratingDeviation?: unknown;
+  themes?: unknown;
+  gameUrl?: unknown;
+}
+
+const toPuzzle = (raw: RawPuzzle, label: string): Puzzle | string => {
+  const moves = typeof raw.moves === 'string' ? raw.moves.trim().split(/\s+/)
+    : Array.isArray(raw.moves) ? raw.moves.map(String) : [];
+  if (typeof raw.fen !== 'string') return `${label} has no FEN`;
+
+  let problem: string | null;
+  try {
+    problem = checkLine(raw.fen, moves);
+  } catch (e) {
+    problem = 'has an invalid FEN';
+  }
+  if (problem) return `${label} ${problem}`;
+
+  const themes = typeof raw.themes === 'string' ? raw.themes.split(/\s+/).filter(Boolean)
+    : Array.isArray(raw.themes) ? raw.themes.map(String) : [];
+  const rating = Number(raw.rating);
+  const ratingDeviation = Number(raw.ratingDeviation);
+  return {
+    id: raw.id ? String(raw.id) : `${raw.fen} ${moves.join(' ')}`,
+    fen: raw.fen,
+    moves,
+    rating: Number.isFinite(rating) && rating > 0 ? rating : DEFAULT_RATING.rating,
+    ratingDeviation: Number.isFinite(ratingDeviation) && ratingDeviation > 0 ? ratingDeviation : DEFAULT_PUZZLE_DEVIATION,
+    themes,
+    source: 'imported',
+    ...(typeof raw.gameUrl === 'string' && raw.gameUrl ? { gameUrl: raw.gameUrl } : {}),
+  };
+};
+
+const collect = (entries: [RawPuzzle, string][]): PuzzleImport => {
+  const result: PuzzleImport = { puzzles: [], skipped: [] };
+  entries.forEach(([raw, label]) => {
+    const puzzle = toPuzzle(raw, label);
+    if (typeof puzzle === 'string') {
+      result.skipped.push(puzzle);
+    } else {
+      result.puzzles.push(puzzle);
+    }
+  });
+  return result;
+};
+
+// Column order of the Lichess puzzle CSV export, used when the file has no header row
+const LICHESS_COLUMNS = [
+  'PuzzleId', 'FEN', 'Moves', 'Rating', 'RatingDeviation', 'Popularity', 'NbPlays', 'Themes', 'GameUrl', 'OpeningTags',
+];
+
+// Reads the Lichess CSV. Its fields never contain commas, so no quoting is handled.
+export const parsePuzzleCsv = (text: string): PuzzleImport => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  const hasHeader = lines[0]?.startsWith('PuzzleId');
+  const columns = hasHeader ? lines[0].split(',') : LICHESS_COLUMNS;
+  const field = (values: string[], name: string) => values[columns.indexOf(name)];
+
+  return collect(lines.slice(hasHeader ? 1 : 0).map((line, index) => {
+    const values = line.split(',');
+    return [{
+      id: field(values, 'PuzzleId'),
+      fen: field(values, 'FEN'),
+      moves: field(values, 'Moves'),
+      rating: field(values, 'Rating'),
+      ratingDeviation: field(values, 'RatingDeviation'),
+      themes: field(values, 'Themes'),
+      gameUrl: field(values, 'GameUrl'),
+    }, `Line ${index + (hasHeader ? 2 : 1)}`];
+  }));
+};
+
+// Reads an array of puzzles using either the Lichess CSV column names or our own field names
+export const parsePuzzleJson = (text: string): PuzzleImport => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    return { puzzles: [], skipped: ['The file is not valid JSON'] };
+  }
+  if (!Array.isArray(data)) return { puzzles: [], skipped: ['Expected an array of puzzles'] };
+
+  return collect(data.map((entry, index) => {
+    const item = (typeof entry === 'object' && entry !== null ? entry : {}) as Record<string, unknown>;
+    return [{
+      id: item.PuzzleId ?? item.id,
+      fen: item.FEN ?? item.fen,
+      moves: item.Moves ?? item.moves,
+      rating: item.Rating ?? item.rating,
+      ratingDeviation: item.RatingDeviation ?? item.ratingDeviation,
+      themes: item.Themes ?? item.themes,
+      gameUrl: item.GameUrl ?? item.gameUrl,
+    }, `Entry ${index + 1}`];
+  }));
+};
+
+export const parsePuzzleFile = (name: string, text: string): PuzzleImport =>
+  name.toLowerCase().endsWith('.json') ? parsePuzzleJson(text) : parsePuzzleCsv(text);
+
+// Turns the blunders of an analysed game into puzzles: the blunder is the
+// opponent's move, and the engine's refutation is the solution.
+export const minePuzzles = (report: GameReport, rating: number = DEFAULT_RATING.rating): Puzzle[] =>
+  report.moves.flatMap(move => {
+    if (move.classification !== 'blunder' || move.swing > -MIN_MINED_SWING) return [];
+
+    const after = report.evaluations[move.ply];
+    const solverChance = move.color === 'w' ? 100 - winChance(after) : winChance(after);
+    if (solverChance < MIN_SOLVER_WIN_CHANCE) return [];
+
+    // The solution has to end on one of the solver's moves
+    const plies = Math.min(after.pv.length, MAX_MINED_PLIES);
+    const solution = after.pv.slice(0, plies % 2 === 1 ? plies : plies - 1);
+    const moves = [move.uci, ...solution];
+    if (solution.length === 0 || checkLine(move.fenBefore, moves)) return [];
+
+    return [{
+      id: `mined:${move.fenBefore.split(' ').slice(0, 4).join(' ')}:${move.uci}`,
+      fen: move.fenBefore,
+      moves,
+      rating,
+      // Nobody has played it yet, so it barely moves the solver's rating
+      ratingDeviation: DEFAULT_RATING.rd,
+      themes: [],
+      source: 'mined',
+    }];
+  });
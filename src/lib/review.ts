@@ -0,0 +1,107 @@
+import { loadJSON, saveJSON } from './storage';
+
+export type ReviewSource = 'opening' | 'blunder';
+
+export interface ReviewCard {
+  id: string;
+  fen: string;
+  // Accepted answers in SAN
+  answers: string[];
+  source: ReviewSource;
+  title: string;
+  explanation?: string;
+  createdAt: string;
+  due: string;
+  // Days until the next review
+  interval: number;
+  ease: number;
+  repetitions: number;
+  lapses: number;
+}
+
+export type NewReviewCard = Pick<ReviewCard, 'fen' | 'answers' | 'source' | 'title' | 'explanation'>;
+
+// SM-2 answer quality: 0 (blackout) to 5 (perfect recall)
+export type ReviewQuality = 0 | 1 | 2 | 3 | 4 | 5;
+
+const STORAGE_KEY = 'review-cards';
+const DAY_MS = 24 * 60 * 60 * 1000;
+const INITIAL_EASE = 2.5;
+const MIN_EASE = 1.3;
+
+// Move counters do not change what the right answer is
+const positionKey = (fen: string) => fen.split(' ').slice(0, 4).join(' ');
+
+export const loadReviewCards = (): ReviewCard[] => loadJSON<ReviewCard[]>(STORAGE_KEY, []);
+
+const saveReviewCards = (cards: ReviewCard[]) => saveJSON(STORAGE_KEY, cards);
+
+export const addReviewCard = (card: NewReviewCard, now: Date = new Date()): ReviewCard => {
+  const cards = loadReviewCards();
+  const id = `${card.source}:${positionKey(card.fen)}`;
+  const existing = cards.find(entry => entry.id === id);
+
+  // Getting a known position wrong again brings it back for review today
+  const next: ReviewCard = existing
+    ? { ...existing, ...card, due: now.toISOString() }
+    : {
+      ...card,
+      id,
+      createdAt: now.toISOString(),
+      due: now.toISOString(),
+      interval: 0,
+      ease: INITIAL_EASE,
+      repetitions: 0,
+      lapses: 0,
+    };
+
+  saveReviewCards(existing ? cards.map(entry => entry.id === id ? next : entry) : [...cards, next]);
+  return next;
+};
+
+export const getDueCards = (cards: ReviewCard[], now: Date = new Date()): ReviewCard[] =>
+  cards
+    .filter(card => new Date(card.due).getTime() <= now.getTime())
+    .sort((a, b) => new Date(a.due).getTime() - new Date(b.due).getTime());
+
+export const getNextDueDate = (cards: ReviewCard[]): Date | null =>
+  cards.reduce<Date | null>((earliest, card) => {
+    const due = new Date(card.due);
+    return !earliest || due < earliest ? due : earliest;
+  }, null);
+
+export const scheduleCard = (card: ReviewCard, quality: ReviewQuality, now: Date = new Date()): ReviewCard => {
+  let { interval, repetitions, lapses, ease } = card;
+
+  // As in SM-2, a failed answer starts the card over but leaves its ease alone
+  if (quality >= 3) {
+    interval = repetitions === 0 ? 1 : repetitions === 1 ? 6 : Math.round(interval * ease);
+    repetitions += 1;
+    ease = Math.max(MIN_EASE, ease + (0.1 - (5 - quality) * (0.08 + (5 - quality) * 0.02)));
+  } else {
+    interval = 1;
+    repetitions = 0;
+    lapses += 1;
+  }
+
+  return {
+    ...card,
+    interval,
+    repetitions,
+    lapses,
+    ease,
+    due: new Date(now.getTime() + interval * DAY_MS).toISOString(),
+  };
+};
+
+export const gradeReviewCard = (id: string, quality: ReviewQuality, now: Date = new Date()): ReviewCard[] => {
+  const cards = loadReviewCards().map(card => card.id === id ? scheduleCard(card, quality, now) : card);
+  saveReviewCards(cards);
+  return cards;
+};
+
+export const removeReviewCard = (id: string): ReviewCard[] => {
+  const cards = loadReviewCards().filter(card => card.id !== id);
+  saveReviewCards(cards);
+  return cards;
+};
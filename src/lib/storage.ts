@@ -0,0 +1,21 @@
+// Small JSON wrapper around localStorage. All keys are namespaced so that
+// settings and progress from different features never collide.
+const PREFIX = 'chessdojo:';
+
+export const loadJSON = <T,>(key: string, fallback: T): T => {
+  try {
+    const raw = window.localStorage.getItem(PREFIX + key);
+    return raw === null ? fallback : JSON.parse(raw) as T;
+  } catch (error) {
+    console.error(`Could not read ${key} from storage:`, error);
+    return fallback;
+  }
+};
+
+export const saveJSON = <T,>(key: string, value: T) => {
+  try {
+    window.localStorage.setItem(PREFIX + key, JSON.stringify(value));
+  } catch (error) {
+    console.error(`Could not save ${key} to storage:`, error);
+  }
+};